@@ -0,0 +1,415 @@
+import { useMemo, useState } from 'react'
+import {
+    dailyChallenge,
+    dayOf,
+    parseChallengeCode,
+} from '../challenge/challenge'
+import ChallengeRunner from '../challenge/challengeRunner'
+import { pointsFor } from '../engine/exerciseEngine'
+import CaseExercise from '../exercises/caseExercise'
+import type { Diagnosis } from '../grammar/diagnosis'
+import type { Sentence } from '../grammar/sentence'
+import type { GameProps } from '../hub/game'
+import type { Mission, Scenario } from '../lessons/lessonPack'
+import { generateScenario } from '../lessons/scenarioGenerator'
+import { missionStatus, newlyAvailable } from '../missions/campaign'
+import MissionBoard from '../missions/missionBoard'
+import MissionRunner from '../missions/missionRunner'
+import { withAnswer, type ProfileSettings } from '../profile/learnerProfile'
+import { hashSeed, SeededRandom } from '../random/seededRandom'
+import { ReviewScheduler } from '../review/scheduler'
+import { rewardFor } from '../shop/shopItems'
+
+/**
+ * The case messenger: the mission campaign, practice of the pack's
+ * scenarios one lesson at a time, endless generated sentences and
+ * challenges. Its routes:
+ *
+ * - `` for the missions, `mission/<id>` for one of them
+ * - `lesson/<scenario id>` for practice, `done` once a round of it is over
+ * - `endless` for generated sentences
+ * - `daily` and `challenge/<code>` for challenges
+ *
+ * Give it a new `key` when the profile is swapped for another, so the
+ * review schedule is read again.
+ */
+export default function CaseMessenger({
+    pack,
+    profile,
+    onProfileChange,
+    tools,
+    sessionSeed,
+    path,
+    onNavigate,
+}: GameProps) {
+    const { scenarios, missions } = pack
+    const { score, level: currentLevel } = profile
+    const [scheduler] = useState(
+        () => new ReviewScheduler({ items: profile.reviewItems })
+    )
+    /** How many generated sentences came before this one. */
+    const [generatedRound, setGeneratedRound] = useState(0)
+    /**
+     * What finishing the mission on screen opens, worked out when it was
+     * started: once it is finished, there is nothing left for it to open.
+     */
+    const [unlocks, setUnlocks] = useState<{
+        missionId: string
+        missions: Mission[]
+    }>()
+    /**
+     * When the daily challenge was opened: a run that goes on past midnight
+     * keeps the day, and so the rounds, it started with.
+     */
+    const [dailyDate, setDailyDate] = useState<Date>()
+    const [section, argument] = path
+
+    const mission =
+        section === 'mission'
+            ? missions.find(({ id }) => id === argument)
+            : undefined
+    // A link can lead to a mission the learner hasn't opened yet.
+    const isLocked =
+        !!mission &&
+        missionStatus(mission, profile.completedMissions) === 'locked'
+    if (mission?.id !== unlocks?.missionId) {
+        setUnlocks(
+            mission && {
+                missionId: mission.id,
+                missions: newlyAvailable(
+                    missions,
+                    profile.completedMissions,
+                    mission.id
+                ),
+            }
+        )
+    }
+    const scenario =
+        section === 'lesson'
+            ? scenarios.find(({ id }) => String(id) === argument)
+            : undefined
+    if ((section === 'daily') !== !!dailyDate) {
+        setDailyDate(section === 'daily' ? new Date() : undefined)
+    }
+    const challenge =
+        section === 'daily'
+            ? dailyDate && dailyChallenge(scenarios, dailyDate)
+            : section === 'challenge' && argument
+              ? parseChallengeCode(argument)
+              : undefined
+
+    /** Scores an answer from practice or a mission alike. */
+    const recordAnswer = (
+        answered: Scenario,
+        result: Diagnosis,
+        answer: Sentence,
+        attempt: number
+    ) => {
+        scheduler.record(result)
+        const record = {
+            scenarioId: answered.id,
+            answer: answer.map((word) => word.value).join(' '),
+            isCorrect: result.isCorrect,
+            at: Date.now(),
+        }
+
+        if (result.isCorrect) {
+            onProfileChange((previous) => {
+                const streak = attempt === 1 ? previous.streak + 1 : 0
+                return {
+                    ...withAnswer(previous, record),
+                    score: previous.score + pointsFor(result),
+                    coins: previous.coins + rewardFor({ attempt, streak }),
+                    streak,
+                    completedScenarios: previous.completedScenarios.includes(
+                        answered.id
+                    )
+                        ? previous.completedScenarios
+                        : [...previous.completedScenarios, answered.id],
+                    reviewItems: scheduler.items,
+                }
+            })
+        } else {
+            onProfileChange((previous) => ({
+                ...withAnswer(previous, record),
+                score: Math.max(0, previous.score + pointsFor(result)),
+                streak: 0,
+                reviewItems: scheduler.items,
+            }))
+        }
+    }
+
+    /**
+     * Generated sentences train the same forms as the written ones, but
+     * there is no scenario to complete or to look up in the history.
+     */
+    const recordGenerated = (result: Diagnosis, attempt: number) => {
+        scheduler.record(result)
+        onProfileChange((previous) => {
+            const streak =
+                result.isCorrect && attempt === 1 ? previous.streak + 1 : 0
+            return {
+                ...previous,
+                score: Math.max(0, previous.score + pointsFor(result)),
+                coins: result.isCorrect
+                    ? previous.coins + rewardFor({ attempt, streak })
+                    : previous.coins,
+                streak,
+                reviewItems: scheduler.items,
+            }
+        })
+    }
+
+    /**
+     * Practice is always on a lesson's address, so it can be bookmarked or
+     * sent. Going on to the next lesson takes the place of this one in the
+     * history, or the back button would replay the round.
+     */
+    const goToLesson = (next: Scenario | undefined, replace = false) => {
+        onProfileChange((previous) => ({
+            ...previous,
+            currentScenarioId: next?.id,
+        }))
+        onNavigate(next ? ['lesson', String(next.id)] : [], { replace })
+    }
+
+    const startPractice = () =>
+        goToLesson(
+            scenarios.find(({ id }) => id === profile.currentScenarioId) ??
+                scheduler.next(scenarios)
+        )
+
+    const handleSolved = () => {
+        if (!scenario) {
+            return
+        }
+        onProfileChange((previous) => ({
+            ...previous,
+            level: previous.level + 1,
+        }))
+        const next = scheduler.next(scenarios, { exclude: [scenario.id] })
+        if (currentLevel + 1 < scenarios.length) {
+            goToLesson(next, true)
+            return
+        }
+        // The end of the round has an address of its own, so a lesson's
+        // link opens the lesson whatever level the learner is on.
+        onProfileChange((previous) => ({
+            ...previous,
+            currentScenarioId: next?.id,
+        }))
+        onNavigate(['done'], { replace: true })
+    }
+
+    /** On to another scenario, without going up a level. */
+    const handleSkip = () => {
+        if (scenario) {
+            goToLesson(
+                scheduler.next(scenarios, { exclude: [scenario.id] }),
+                true
+            )
+        }
+    }
+
+    const generated = useMemo(
+        () =>
+            generateScenario(
+                pack,
+                new SeededRandom(
+                    hashSeed(`${sessionSeed}:generated:${generatedRound}`)
+                ),
+                generatedRound + 1
+            ),
+        [pack, sessionSeed, generatedRound]
+    )
+
+    const setAnswerMode = (answerMode: ProfileSettings['answerMode']) =>
+        onProfileChange((previous) => ({
+            ...previous,
+            settings: { ...previous.settings, answerMode },
+        }))
+
+    const completeMission = (completed: Mission) =>
+        onProfileChange((previous) => ({
+            ...previous,
+            completedMissions: previous.completedMissions.includes(completed.id)
+                ? previous.completedMissions
+                : [...previous.completedMissions, completed.id],
+        }))
+
+    const startNewRound = () => {
+        onProfileChange((previous) => ({ ...previous, level: 0 }))
+        goToLesson(scheduler.next(scenarios), true)
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={() => onNavigate([])}
+                    className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                >
+                    Missions
+                </button>
+                <button
+                    onClick={startPractice}
+                    className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                >
+                    Free practice
+                </button>
+                <button
+                    onClick={() => onNavigate(['endless'])}
+                    className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                >
+                    Endless practice
+                </button>
+                <button
+                    onClick={() => onNavigate(['daily'])}
+                    className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                >
+                    Daily challenge
+                </button>
+            </div>
+
+            {section === undefined && (
+                <MissionBoard
+                    missions={missions}
+                    completedMissions={profile.completedMissions}
+                    onStart={(started) => onNavigate(['mission', started.id])}
+                />
+            )}
+
+            {mission && isLocked && (
+                <p>
+                    "{mission.title}" opens once{' '}
+                    {mission.prerequisites
+                        .filter((id) => !profile.completedMissions.includes(id))
+                        .map(
+                            (id) =>
+                                missions.find((each) => each.id === id)
+                                    ?.title ?? id
+                        )
+                        .join(' and ')}{' '}
+                    {mission.prerequisites.length > 1 ? 'are' : 'is'} finished.
+                </p>
+            )}
+
+            {mission && !isLocked && (
+                <MissionRunner
+                    key={mission.id}
+                    mission={mission}
+                    unlocks={unlocks?.missions ?? []}
+                    seed={hashSeed(`${sessionSeed}:${mission.id}`)}
+                    tools={tools}
+                    answerMode={profile.settings.answerMode}
+                    onAnswerModeChange={setAnswerMode}
+                    onCheck={recordAnswer}
+                    onComplete={() => completeMission(mission)}
+                    onLeave={() => onNavigate([])}
+                />
+            )}
+
+            {challenge && (
+                <ChallengeRunner
+                    key={argument ?? section}
+                    challenge={challenge}
+                    title={
+                        dailyDate
+                            ? `Daily challenge, ${dayOf(dailyDate)}`
+                            : 'Shared challenge'
+                    }
+                    scenarios={scenarios}
+                    tools={tools}
+                    answerMode={profile.settings.answerMode}
+                    onAnswerModeChange={setAnswerMode}
+                    onCheck={recordAnswer}
+                    onLeave={() => onNavigate([])}
+                />
+            )}
+
+            {scenario && (
+                <>
+                    <p className="text-lg">Level: {currentLevel + 1}</p>
+                    <CaseExercise
+                        key={`${scenario.id}-${currentLevel}`}
+                        scenario={scenario}
+                        seed={hashSeed(
+                            `${sessionSeed}:${scenario.id}:${currentLevel}`
+                        )}
+                        tools={tools}
+                        answerMode={profile.settings.answerMode}
+                        onAnswerModeChange={setAnswerMode}
+                        onCheck={(result, answer, attempt) =>
+                            recordAnswer(scenario, result, answer, attempt)
+                        }
+                        onSolved={handleSolved}
+                        onSkip={handleSkip}
+                    />
+                </>
+            )}
+
+            {section === 'done' && currentLevel >= scenarios.length && (
+                <div className="text-center py-8">
+                    <h2 className="text-2xl font-bold">Congratulations!</h2>
+                    <p>
+                        You've completed all scenarios with a score of {score}
+                    </p>
+                    <button
+                        onClick={startNewRound}
+                        className="mt-4 px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Play another round
+                    </button>
+                </div>
+            )}
+
+            {section === 'done' && currentLevel < scenarios.length && (
+                <div className="text-center py-8">
+                    <p>
+                        This round isn't over yet:{' '}
+                        {scenarios.length - currentLevel} of its{' '}
+                        {scenarios.length} scenarios are still to go.
+                    </p>
+                    <button
+                        onClick={startPractice}
+                        className="mt-4 px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Go on practising
+                    </button>
+                </div>
+            )}
+
+            {section === 'endless' && (
+                <CaseExercise
+                    key={generatedRound}
+                    scenario={generated}
+                    seed={hashSeed(
+                        `${sessionSeed}:generated:${generatedRound}`
+                    )}
+                    tools={tools}
+                    answerMode={profile.settings.answerMode}
+                    onAnswerModeChange={setAnswerMode}
+                    onCheck={(result, _, attempt) =>
+                        recordGenerated(result, attempt)
+                    }
+                    onSolved={() => setGeneratedRound(generatedRound + 1)}
+                    onSkip={() => setGeneratedRound(generatedRound + 1)}
+                />
+            )}
+
+            {section !== undefined &&
+                section !== 'endless' &&
+                section !== 'done' &&
+                !mission &&
+                !scenario &&
+                !challenge && (
+                    <p>
+                        There is no such{' '}
+                        {section === 'challenge' ? 'challenge' : 'lesson'} in
+                        this pack. The link may be mistyped, or made with a
+                        newer version.
+                    </p>
+                )}
+        </div>
+    )
+}
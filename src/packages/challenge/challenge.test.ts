@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { MAX_SCENARIO_ID } from '../lessons/lessonPack'
+import { loadLessonPack } from '../lessons/loadLessonPack'
+import caseMessengerPack from '../lessons/packs/caseMessenger.json'
+import {
+    dailyChallenge,
+    encodeChallenge,
+    parseChallengeCode,
+    roundsOf,
+} from './challenge'
+
+const { scenarios } = loadLessonPack(caseMessengerPack)
+
+describe('parseChallengeCode', () => {
+    it('reads back the code of a daily challenge', () => {
+        const challenge = dailyChallenge(scenarios, new Date(2026, 9, 19))
+        const parsed = parseChallengeCode(encodeChallenge(challenge))
+        expect(parsed?.seed).toBe(challenge.seed)
+        expect(parsed?.scenarioIds).toEqual(
+            [...challenge.scenarioIds].sort((a, b) => a - b)
+        )
+    })
+
+    it('reads a code with any number of lessons', () => {
+        const challenge = {
+            seed: 12345,
+            scenarioIds: scenarios.map(({ id }) => id),
+        }
+        const parsed = parseChallengeCode(encodeChallenge(challenge))
+        expect(parsed).toEqual(challenge)
+        expect(parsed && roundsOf(parsed, scenarios)).toHaveLength(
+            scenarios.length
+        )
+    })
+
+    it('rejects codes no challenge can have', () => {
+        expect(parseChallengeCode('')).toBeUndefined()
+        expect(parseChallengeCode('abc-0')).toBeUndefined()
+        expect(
+            parseChallengeCode(encodeChallenge({ seed: 1, scenarioIds: [0] }))
+        ).toBeUndefined()
+        expect(
+            parseChallengeCode(
+                encodeChallenge({ seed: 1, scenarioIds: [MAX_SCENARIO_ID + 1] })
+            )
+        ).toBeUndefined()
+        expect(
+            parseChallengeCode(
+                encodeChallenge({ seed: 1, scenarioIds: [MAX_SCENARIO_ID] })
+            )
+        ).toEqual({ seed: 1, scenarioIds: [MAX_SCENARIO_ID] })
+    })
+})
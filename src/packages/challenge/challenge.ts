@@ -0,0 +1,122 @@
+import { MAX_SCENARIO_ID, type Scenario } from '../lessons/lessonPack'
+import { hashSeed, SeededRandom } from '../random/seededRandom'
+
+/**
+ * A reproducible run of scenarios: the same seed and the same selection
+ * give every learner the same scenarios in the same order, with the same
+ * word order on the buttons, offline.
+ */
+export interface Challenge {
+    seed: number
+    /** The lessons it is drawn from, in no particular order. */
+    scenarioIds: number[]
+}
+
+/** One scenario of a challenge, with the seed for its exercise. */
+export interface ChallengeRound {
+    scenario: Scenario
+    seed: number
+}
+
+/** Scenarios in a daily challenge. */
+const DAILY_LENGTH = 5
+
+/** Base 36 digits of the mask with every scenario id in it. */
+const MAX_MASK_DIGITS = (BigInt(2) << BigInt(MAX_SCENARIO_ID)).toString(
+    36
+).length
+
+/** Seeds are shown and shared in base 36: short, and easy to read out. */
+export function formatSeed(seed: number): string {
+    return seed.toString(36)
+}
+
+/** The seed `formatSeed` gave, or undefined if `text` isn't one. */
+export function parseSeed(text: string): number | undefined {
+    if (!/^[0-9a-z]{1,7}$/.test(text)) {
+        return undefined
+    }
+    const seed = parseInt(text, 36)
+    return seed <= 0xffffffff ? seed : undefined
+}
+
+/** The date in the learner's time zone, e.g. `2026-10-19`. */
+export function dayOf(date: Date): string {
+    return [
+        date.getFullYear(),
+        String(date.getMonth() + 1).padStart(2, '0'),
+        String(date.getDate()).padStart(2, '0'),
+    ].join('-')
+}
+
+/** The same challenge for everyone on the same day. */
+export function dailyChallenge(
+    scenarios: Scenario[],
+    date = new Date()
+): Challenge {
+    const seed = hashSeed(`daily:${dayOf(date)}`)
+    return {
+        seed,
+        scenarioIds: new SeededRandom(seed)
+            .shuffle(scenarios.map(({ id }) => id))
+            .slice(0, DAILY_LENGTH),
+    }
+}
+
+/**
+ * A code to share a challenge by: the seed, a dash and the set of scenario
+ * ids as a bit mask, both in base 36, e.g. `1x2k9q-b3z`.
+ */
+export function encodeChallenge({ seed, scenarioIds }: Challenge): string {
+    const mask = scenarioIds.reduce(
+        (bits, id) => bits | (BigInt(1) << BigInt(id)),
+        BigInt(0)
+    )
+    return `${formatSeed(seed)}-${mask.toString(36)}`
+}
+
+/**
+ * The challenge `encodeChallenge` gave, or undefined if `code` isn't one.
+ * A code holds at least one id and none above `MAX_SCENARIO_ID`; anything
+ * else is mistyped or made up.
+ */
+export function parseChallengeCode(code: string): Challenge | undefined {
+    const [seedText, maskText, ...rest] = code.trim().toLowerCase().split('-')
+    const seed = parseSeed(seedText)
+    if (
+        seed === undefined ||
+        rest.length ||
+        !new RegExp(`^[0-9a-z]{1,${MAX_MASK_DIGITS}}$`).test(maskText ?? '')
+    ) {
+        return undefined
+    }
+    let mask = BigInt(0)
+    for (const digit of maskText) {
+        mask = mask * BigInt(36) + BigInt(parseInt(digit, 36))
+    }
+    // Bit 0 would be scenario 0, which no pack has.
+    if (mask & BigInt(1) || mask >> BigInt(MAX_SCENARIO_ID + 1)) {
+        return undefined
+    }
+    const scenarioIds: number[] = []
+    for (let id = 1; mask >> BigInt(id); id++) {
+        if ((mask >> BigInt(id)) & BigInt(1)) {
+            scenarioIds.push(id)
+        }
+    }
+    return scenarioIds.length ? { seed, scenarioIds } : undefined
+}
+
+/**
+ * The challenge's scenarios in playing order. Ids the pack doesn't have,
+ * e.g. from a code made with a newer pack, are left out.
+ */
+export function roundsOf(
+    { seed, scenarioIds }: Challenge,
+    scenarios: Scenario[]
+): ChallengeRound[] {
+    const random = new SeededRandom(seed)
+    return random
+        .shuffle(scenarios.filter(({ id }) => scenarioIds.includes(id)))
+        .map((scenario) => ({ scenario, seed: random.integer(2 ** 32) }))
+}
@@ -0,0 +1,146 @@
+import { useMemo, useState } from 'react'
+import CaseExercise, { type ExerciseTools } from '../exercises/caseExercise'
+import type { Diagnosis } from '../grammar/diagnosis'
+import type { Sentence } from '../grammar/sentence'
+import { formatRoute } from '../hub/route'
+import type { Scenario } from '../lessons/lessonPack'
+import type { ProfileSettings } from '../profile/learnerProfile'
+import { encodeChallenge, roundsOf, type Challenge } from './challenge'
+
+interface ChallengeRunnerProps {
+    challenge: Challenge
+    /** e.g. "Daily challenge, 2026-10-19". */
+    title: string
+    scenarios: Scenario[]
+    tools: ExerciseTools
+    answerMode: ProfileSettings['answerMode']
+    onAnswerModeChange: (mode: ProfileSettings['answerMode']) => void
+    /** Every checked answer, as in free practice. */
+    onCheck: (
+        scenario: Scenario,
+        diagnosis: Diagnosis,
+        answer: Sentence,
+        attempt: number
+    ) => void
+    onLeave: () => void
+}
+
+/**
+ * Plays a challenge's scenarios in its fixed order and counts how many were
+ * right at the first check, and how long it all took, so learners with the
+ * same code can compare.
+ */
+export default function ChallengeRunner({
+    challenge,
+    title,
+    scenarios,
+    tools,
+    answerMode,
+    onAnswerModeChange,
+    onCheck,
+    onLeave,
+}: ChallengeRunnerProps) {
+    const rounds = useMemo(
+        () => roundsOf(challenge, scenarios),
+        [challenge, scenarios]
+    )
+    const code = encodeChallenge(challenge)
+    const link = `${location.origin}${location.pathname}${formatRoute({
+        segments: ['case-messenger', 'challenge', code],
+    })}`
+    const [roundIndex, setRoundIndex] = useState(0)
+    /** Rounds whose first check was right. */
+    const [firstTime, setFirstTime] = useState(0)
+    const [startedAt] = useState(() => Date.now())
+    const [finishedAt, setFinishedAt] = useState<number>()
+    const round = rounds[roundIndex] as (typeof rounds)[number] | undefined
+
+    const nextRound = () => {
+        if (roundIndex === rounds.length - 1) {
+            setFinishedAt(Date.now())
+        }
+        setRoundIndex(roundIndex + 1)
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-gray-100/50 p-4 rounded space-y-2">
+                <h3 className="font-bold">{title}</h3>
+                <p className="text-sm">
+                    Code <code>{code}</code>: anyone who opens this link gets
+                    the same sentences in the same order.
+                </p>
+                <div className="flex flex-wrap gap-2 text-sm">
+                    <input
+                        readOnly
+                        value={link}
+                        aria-label="Challenge link"
+                        onFocus={(event) => event.target.select()}
+                        className="flex-1 min-w-0 px-2 py-1 rounded border bg-white/70"
+                    />
+                    {navigator.clipboard && (
+                        <button
+                            onClick={() => navigator.clipboard.writeText(link)}
+                            className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                        >
+                            Copy link
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            {!rounds.length && (
+                <p>
+                    None of this challenge's sentences are in these lessons. It
+                    may have been made with a newer version.
+                </p>
+            )}
+
+            {round && (
+                <>
+                    <p className="text-sm text-gray-600">
+                        Sentence {roundIndex + 1} of {rounds.length}
+                    </p>
+                    <CaseExercise
+                        key={roundIndex}
+                        scenario={round.scenario}
+                        seed={round.seed}
+                        tools={tools}
+                        answerMode={answerMode}
+                        onAnswerModeChange={onAnswerModeChange}
+                        onCheck={(diagnosis, answer, attempt) => {
+                            if (attempt === 1 && diagnosis.isCorrect) {
+                                setFirstTime((count) => count + 1)
+                            }
+                            onCheck(round.scenario, diagnosis, answer, attempt)
+                        }}
+                        onSolved={nextRound}
+                        onSkip={nextRound}
+                    />
+                </>
+            )}
+
+            {finishedAt !== undefined && (
+                <div className="text-center py-8 space-y-4">
+                    <h2 className="text-2xl font-bold">Challenge complete!</h2>
+                    <p>
+                        {firstTime} of {rounds.length} right first time, in{' '}
+                        {formatDuration(finishedAt - startedAt)}.
+                    </p>
+                    <button
+                        onClick={onLeave}
+                        className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Done
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+/** e.g. `3:07`. */
+function formatDuration(milliseconds: number) {
+    const seconds = Math.round(milliseconds / 1000)
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`
+}
@@ -0,0 +1,102 @@
+import { AdjectiveDeclined, DeclinationOfAdjective } from '../grammar/adjective'
+import type {
+    Degree,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    Strength,
+} from '../grammar/types'
+
+interface AdjectiveChoicesProps {
+    declinations: DeclinationOfAdjective<string>
+    degree: Degree
+    onSelect: (word: AdjectiveDeclined<string>) => void
+}
+
+const STRENGTHS: Strength[] = ['strong', 'weak']
+const NUMBERS: GrammaticalNumber[] = ['singular', 'plural']
+const GENDERS: GrammaticalGender[] = ['masculine', 'feminine', 'neuter']
+const CASES: GrammaticalCase[] = [
+    'nominative',
+    'accusative',
+    'genitive',
+    'dative',
+    'instrumental',
+]
+
+/**
+ * The adjective counterpart of `NounChoices`. A full strong and weak table
+ * would be 48 buttons of which most are the same few spellings, so each
+ * spelling is offered once with every analysis it covers in its title.
+ */
+export default function AdjectiveChoices({
+    declinations,
+    degree,
+    onSelect,
+}: AdjectiveChoicesProps) {
+    return (
+        <div className="space-y-2">
+            <h4 className="font-bold">
+                {declinations.base.value}
+                {degree !== 'positive' && ` (${degree})`}
+            </h4>
+            {STRENGTHS.map((strength) => {
+                const byValue = new Map<string, AdjectiveDeclined<string>[]>()
+                for (const number of NUMBERS) {
+                    for (const gender of GENDERS) {
+                        for (const caseGram of CASES) {
+                            const form = declinations.formOf({
+                                degree,
+                                strength,
+                                gender,
+                                caseGram,
+                                number,
+                            })
+                            if (!form) {
+                                continue
+                            }
+                            const word = new AdjectiveDeclined({
+                                declinations,
+                                degree,
+                                strength,
+                                gender,
+                                caseGram,
+                                number,
+                            })
+                            byValue.set(word.value, [
+                                ...(byValue.get(word.value) ?? []),
+                                word,
+                            ])
+                        }
+                    }
+                }
+                if (!byValue.size) {
+                    return null
+                }
+
+                return (
+                    <div key={strength} className="space-x-2">
+                        <span className="text-sm text-gray-600">
+                            {strength}:
+                        </span>
+                        {[...byValue].map(([value, words]) => (
+                            <button
+                                key={value}
+                                title={words
+                                    .map(
+                                        (word) =>
+                                            `${word.gender} ${word.caseGram} ${word.number}`
+                                    )
+                                    .join('\n')}
+                                onClick={() => onSelect(words[0])}
+                                className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                            >
+                                {value}
+                            </button>
+                        ))}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
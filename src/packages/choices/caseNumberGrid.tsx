@@ -0,0 +1,69 @@
+import type {
+    GrammaticalCase,
+    GrammaticalNumber,
+    GrammaticalNumberInfo,
+} from '../grammar/types'
+
+export interface CaseNumberGridProps {
+    title: string
+    table: Partial<Record<GrammaticalCase, GrammaticalNumberInfo<string>>>
+    onPick: (caseGram: GrammaticalCase, number: GrammaticalNumber) => void
+    /** Forms struck out by a hint, shown but not clickable. */
+    isEliminated?: (
+        caseGram: GrammaticalCase,
+        number: GrammaticalNumber
+    ) => boolean
+}
+
+const NUMBERS: GrammaticalNumber[] = ['singular', 'dual', 'plural']
+
+/**
+ * One row per case the paradigm defines and one button per number that row
+ * has, so a dual only shows up for the pronouns that actually have one.
+ */
+export default function CaseNumberGrid({
+    title,
+    table,
+    onPick,
+    isEliminated,
+}: CaseNumberGridProps) {
+    return (
+        <div className="space-y-2">
+            <h4 className="font-bold">{title}</h4>
+            {Object.entries(table)
+                .filter(([, numberInfo]) => !!numberInfo)
+                .map(([caseGram, numberInfo]) => (
+                    <div key={caseGram} className="space-x-2">
+                        {NUMBERS.filter((number) => !!numberInfo?.[number]).map(
+                            (number) => {
+                                const isStruckOut = isEliminated?.(
+                                    caseGram as GrammaticalCase,
+                                    number
+                                )
+                                return (
+                                    <button
+                                        key={number}
+                                        title={`${caseGram} ${number}`}
+                                        disabled={isStruckOut}
+                                        onClick={() =>
+                                            onPick(
+                                                caseGram as GrammaticalCase,
+                                                number
+                                            )
+                                        }
+                                        className={`px-3 py-1 rounded ${
+                                            isStruckOut
+                                                ? 'bg-gray-200 text-gray-400 line-through'
+                                                : 'bg-amber-100 hover:bg-amber-200'
+                                        }`}
+                                    >
+                                        {numberInfo?.[number]?.value}
+                                    </button>
+                                )
+                            }
+                        )}
+                    </div>
+                ))}
+        </div>
+    )
+}
@@ -0,0 +1,64 @@
+import {
+    DeclinationOfDemonstrative,
+    DemonstrativeDeclined,
+} from '../grammar/demonstrative'
+import type { GrammaticalCase, GrammaticalGender } from '../grammar/types'
+
+interface DemonstrativeChoicesProps {
+    declinations: DeclinationOfDemonstrative<string>
+    onSelect: (word: DemonstrativeDeclined<string>) => void
+}
+
+const CASES: GrammaticalCase[] = [
+    'nominative',
+    'accusative',
+    'genitive',
+    'dative',
+    'instrumental',
+]
+
+const COLUMNS: { label: string; gender: GrammaticalGender; plural: boolean }[] =
+    [
+        { label: 'masc.', gender: 'masculine', plural: false },
+        { label: 'fem.', gender: 'feminine', plural: false },
+        { label: 'neut.', gender: 'neuter', plural: false },
+        // The plural has no gender; any will do to look it up.
+        { label: 'pl.', gender: 'masculine', plural: true },
+    ]
+
+/**
+ * The determiner counterpart of `NounChoices`: one row per case, one column
+ * per gender plus the plural.
+ */
+export default function DemonstrativeChoices({
+    declinations,
+    onSelect,
+}: DemonstrativeChoicesProps) {
+    return (
+        <div className="space-y-2">
+            <h4 className="font-bold">{declinations.base.value}</h4>
+            {CASES.map((caseGram) => (
+                <div key={caseGram} className="space-x-2">
+                    {COLUMNS.map(({ label, gender, plural }) => {
+                        const word = new DemonstrativeDeclined({
+                            declinations,
+                            gender,
+                            caseGram,
+                            number: plural ? 'plural' : 'singular',
+                        })
+                        return (
+                            <button
+                                key={label}
+                                title={`${plural ? '' : `${gender} `}${caseGram} ${word.number}`}
+                                onClick={() => onSelect(word)}
+                                className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                            >
+                                {word.value}
+                            </button>
+                        )
+                    })}
+                </div>
+            ))}
+        </div>
+    )
+}
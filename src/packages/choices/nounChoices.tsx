@@ -0,0 +1,25 @@
+import { DeclinationOfNoun, NounDeclined } from '../grammar/noun'
+import CaseNumberGrid, { type CaseNumberGridProps } from './caseNumberGrid'
+
+interface NounChoicesProps {
+    declinations: DeclinationOfNoun<string>
+    onSelect: (word: NounDeclined<string>) => void
+    isEliminated?: CaseNumberGridProps['isEliminated']
+}
+
+export default function NounChoices({
+    declinations,
+    onSelect,
+    isEliminated,
+}: NounChoicesProps) {
+    return (
+        <CaseNumberGrid
+            title={declinations.base.value}
+            table={declinations.declinationTable}
+            isEliminated={isEliminated}
+            onPick={(caseGram, number) =>
+                onSelect(new NounDeclined({ declinations, caseGram, number }))
+            }
+        />
+    )
+}
@@ -0,0 +1,27 @@
+import { DeclinationOfPronoun, PronounDeclined } from '../grammar/pronoun'
+import CaseNumberGrid, { type CaseNumberGridProps } from './caseNumberGrid'
+
+interface PronounChoicesProps {
+    declinations: DeclinationOfPronoun<string>
+    onSelect: (word: PronounDeclined<string>) => void
+    isEliminated?: CaseNumberGridProps['isEliminated']
+}
+
+export default function PronounChoices({
+    declinations,
+    onSelect,
+    isEliminated,
+}: PronounChoicesProps) {
+    return (
+        <CaseNumberGrid
+            title={declinations.base.value}
+            table={declinations.declinationTable}
+            isEliminated={isEliminated}
+            onPick={(caseGram, number) =>
+                onSelect(
+                    new PronounDeclined({ declinations, caseGram, number })
+                )
+            }
+        />
+    )
+}
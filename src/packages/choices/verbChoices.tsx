@@ -0,0 +1,91 @@
+import type {
+    GrammaticalNumber,
+    GrammaticalPerson,
+    Mood,
+    Tense,
+} from '../grammar/types'
+import { ConjugationOfVerb, VerbConjugated } from '../grammar/verb'
+
+interface VerbChoicesProps {
+    conjugations: ConjugationOfVerb<string>
+    onSelect: (word: VerbConjugated<string>) => void
+}
+
+type Slot = {
+    label: string
+    person: GrammaticalPerson
+    number: GrammaticalNumber
+}
+
+const INDICATIVE_SLOTS: Slot[] = [
+    { label: 'ic', person: 'first', number: 'singular' },
+    { label: 'þū', person: 'second', number: 'singular' },
+    { label: 'hē', person: 'third', number: 'singular' },
+    { label: 'hīe', person: 'third', number: 'plural' },
+]
+
+const SUBJUNCTIVE_SLOTS: Slot[] = [
+    { label: 'sg.', person: 'third', number: 'singular' },
+    { label: 'pl.', person: 'third', number: 'plural' },
+]
+
+const IMPERATIVE_SLOTS: Slot[] = [
+    { label: 'sg.', person: 'second', number: 'singular' },
+    { label: 'pl.', person: 'second', number: 'plural' },
+]
+
+const ROWS: { tense: Tense; mood: Mood; slots: Slot[] }[] = [
+    { tense: 'present', mood: 'indicative', slots: INDICATIVE_SLOTS },
+    { tense: 'past', mood: 'indicative', slots: INDICATIVE_SLOTS },
+    { tense: 'present', mood: 'subjunctive', slots: SUBJUNCTIVE_SLOTS },
+    { tense: 'past', mood: 'subjunctive', slots: SUBJUNCTIVE_SLOTS },
+    { tense: 'present', mood: 'imperative', slots: IMPERATIVE_SLOTS },
+]
+
+/**
+ * The verb counterpart of `NounChoices`: one row of buttons per tense and
+ * mood, each button a finite form of the verb.
+ */
+export default function VerbChoices({
+    conjugations,
+    onSelect,
+}: VerbChoicesProps) {
+    return (
+        <div className="space-y-2">
+            <h4 className="font-bold">{conjugations.infinitive.value}</h4>
+            {ROWS.map(({ tense, mood, slots }) => {
+                const available = slots.filter(
+                    (slot) => !!conjugations.formOf({ ...slot, tense, mood })
+                )
+                if (!available.length) {
+                    return null
+                }
+                return (
+                    <div key={`${tense}-${mood}`} className="space-x-2">
+                        <span className="text-sm text-gray-600">
+                            {tense} {mood}:
+                        </span>
+                        {available.map((slot) => {
+                            const word = new VerbConjugated({
+                                conjugations,
+                                ...slot,
+                                tense,
+                                mood,
+                            })
+                            return (
+                                <button
+                                    key={slot.label}
+                                    title={`${slot.person} person ${slot.number}`}
+                                    onClick={() => onSelect(word)}
+                                    className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                                >
+                                    {word.value}
+                                </button>
+                            )
+                        })}
+                    </div>
+                )
+            })}
+        </div>
+    )
+}
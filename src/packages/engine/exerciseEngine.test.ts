@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import { sentenceOf } from '../grammar/sentence'
+import { loadLessonPack } from '../lessons/loadLessonPack'
+import caseMessengerPack from '../lessons/packs/caseMessenger.json'
+import { SeededRandom } from '../random/seededRandom'
+import {
+    createExercise,
+    exerciseReducer,
+    type ExerciseAction,
+    type ExerciseState,
+} from './exerciseEngine'
+
+const [{ clause }] = loadLessonPack(caseMessengerPack).scenarios
+const expected = sentenceOf(clause)
+const expectedText = expected.map((word) => word.value).join(' ')
+
+function run(actions: ExerciseAction[], state = start()): ExerciseState {
+    return actions.reduce(exerciseReducer, state)
+}
+
+function start(seed = 1) {
+    return createExercise(clause, new SeededRandom(seed))
+}
+
+const pickAll: ExerciseAction[] = expected.map((word) => ({
+    type: 'select',
+    word,
+}))
+
+/** Every word but the last: always wrong. */
+const pickMost = pickAll.slice(0, -1)
+
+describe('createExercise', () => {
+    it('shuffles the fixed words by the seed', () => {
+        expect(start(5).fixedWords).toEqual(start(5).fixedWords)
+        expect(start(5).phase).toBe('answering')
+        expect(start(5).sentence).toEqual([])
+    })
+})
+
+describe('exerciseReducer', () => {
+    it('builds the sentence word by word, and undoes and redoes it', () => {
+        const [first, second] = expected
+        let state = run([
+            { type: 'select', word: first },
+            { type: 'select', word: second, at: 0 },
+        ])
+        expect(state.sentence).toEqual([second, first])
+
+        state = run([{ type: 'reorder', from: 0, to: 1 }], state)
+        expect(state.sentence).toEqual([first, second])
+        state = run([{ type: 'remove', index: 0 }], state)
+        expect(state.sentence).toEqual([second])
+
+        state = run([{ type: 'undo' }, { type: 'undo' }], state)
+        expect(state.sentence).toEqual([second, first])
+        state = run([{ type: 'redo' }], state)
+        expect(state.sentence).toEqual([first, second])
+        // A new change drops what was undone.
+        state = run([{ type: 'remove', index: 1 }, { type: 'redo' }], state)
+        expect(state.sentence).toEqual([first])
+    })
+
+    it('ignores changes at positions that are not in the sentence', () => {
+        const state = run(pickMost)
+        for (const action of [
+            { type: 'select', word: expected[0], at: -1 },
+            { type: 'remove', index: 99 },
+            { type: 'reorder', from: 0, to: 99 },
+        ] as const) {
+            expect(exerciseReducer(state, action)).toBe(state)
+        }
+        expect(exerciseReducer(start(), { type: 'undo' })).toEqual(start())
+    })
+
+    it('shows a wrong answer until the sentence changes', () => {
+        const checked = run([...pickMost, { type: 'check', mode: 'pick' }])
+        expect(checked.phase).toBe('checking')
+        expect(checked.lastCheck?.attempt).toBe(1)
+        expect(checked.lastCheck?.diagnosis.isCorrect).toBe(false)
+
+        const changed = run([pickAll[pickAll.length - 1]], checked)
+        expect(changed.phase).toBe('answering')
+        expect(changed.lastCheck).toBe(checked.lastCheck)
+    })
+
+    it('does nothing when an answer is checked again unchanged', () => {
+        const checked = run([...pickMost, { type: 'check', mode: 'pick' }])
+        expect(exerciseReducer(checked, { type: 'check', mode: 'pick' })).toBe(
+            checked
+        )
+
+        // Once changed, even back again, it is a new attempt.
+        const redone = run(
+            [
+                pickAll[pickAll.length - 1],
+                { type: 'undo' },
+                { type: 'check', mode: 'pick' },
+            ],
+            checked
+        )
+        expect(redone.lastCheck?.attempt).toBe(2)
+    })
+
+    it('counts each check of a changed answer as an attempt', () => {
+        const state = run([
+            ...pickMost,
+            { type: 'check', mode: 'pick' },
+            { type: 'remove', index: 0 },
+            { type: 'check', mode: 'pick' },
+            { type: 'undo' },
+            { type: 'redo' },
+            { type: 'check', mode: 'pick' },
+        ])
+        expect(state.lastCheck?.attempt).toBe(3)
+    })
+
+    it('holds a right answer until it advances, then finishes', () => {
+        const correct = run([...pickAll, { type: 'check', mode: 'pick' }])
+        expect(correct.phase).toBe('correct')
+        expect(correct.lastCheck?.diagnosis.isCorrect).toBe(true)
+        for (const action of [
+            { type: 'remove', index: 0 },
+            { type: 'check', mode: 'pick' },
+            { type: 'skip' },
+        ] as const) {
+            expect(exerciseReducer(correct, action)).toBe(correct)
+        }
+        expect(run([{ type: 'advance' }], correct)).toMatchObject({
+            phase: 'finished',
+            outcome: 'solved',
+        })
+    })
+
+    it('only advances after a right answer', () => {
+        const state = start()
+        expect(exerciseReducer(state, { type: 'advance' })).toBe(state)
+    })
+
+    it('finishes on a skip', () => {
+        expect(run([...pickMost, { type: 'skip' }])).toMatchObject({
+            phase: 'finished',
+            outcome: 'skipped',
+        })
+    })
+
+    it('checks the typed answer after a picked one was found wrong', () => {
+        const picked = run([...pickMost, { type: 'check', mode: 'pick' }])
+        const typed = exerciseReducer(picked, { type: 'check', mode: 'type' })
+        expect(typed.lastCheck).toMatchObject({ attempt: 2, mode: 'type' })
+    })
+
+    it('checks a typed answer and puts it in the sentence', () => {
+        const wrong = run([
+            { type: 'type', text: expectedText.toUpperCase() + ' xyzzy' },
+            { type: 'check', mode: 'type' },
+        ])
+        expect(wrong.phase).toBe('checking')
+        expect(
+            wrong.lastCheck?.diagnosis.tokens.find(
+                ({ token }) => token?.value === 'xyzzy'
+            )?.explanation
+        ).toMatch(/not a form of any word/)
+        expect(exerciseReducer(wrong, { type: 'check', mode: 'type' })).toBe(
+            wrong
+        )
+
+        const right = run(
+            [
+                { type: 'type', text: expectedText },
+                { type: 'check', mode: 'type' },
+            ],
+            wrong
+        )
+        expect(right.phase).toBe('correct')
+        expect(right.lastCheck?.attempt).toBe(2)
+        expect(right.sentence.map((word) => word.value)).toEqual(
+            expected.map((word) => word.value)
+        )
+    })
+})
@@ -0,0 +1,240 @@
+import { parseTypedAnswer } from '../exercises/typedAnswer'
+import { diagnose, type Diagnosis } from '../grammar/diagnosis'
+import { isPrepositionGoverning } from '../grammar/preposition'
+import {
+    sentenceOf,
+    type Clause,
+    type Sentence,
+    type SentenceToken,
+} from '../grammar/sentence'
+import WordSimple from '../grammar/wordSimple'
+import type { SeededRandom } from '../random/seededRandom'
+
+/**
+ * - answering: the sentence is being built, and hasn't been checked since
+ *   it last changed;
+ * - checking: a wrong answer has been checked and its verdicts are on show,
+ *   until the sentence changes again. Checking the same answer again does
+ *   nothing;
+ * - correct: a right answer's feedback is on show for a moment before the
+ *   exercise moves on; nothing can be changed or checked any more;
+ * - finished: solved or skipped. Only the owner moving on is left.
+ */
+export type ExercisePhase = 'answering' | 'checking' | 'correct' | 'finished'
+
+export interface CheckedAnswer {
+    diagnosis: Diagnosis
+    answer: Sentence
+    /** 1 for the first check of the exercise. */
+    attempt: number
+    /** Picked or typed: the other mode's answer can differ. */
+    mode: 'pick' | 'type'
+}
+
+export interface ExerciseState {
+    phase: ExercisePhase
+    clause: Clause
+    /** Words that do not inflect, shuffled once at the start. */
+    fixedWords: SentenceToken[]
+    sentence: Sentence
+    /** The typed answer, in typing mode. */
+    typed: string
+    lastCheck?: CheckedAnswer
+    /** Earlier sentences for undo, the latest last. */
+    past: Sentence[]
+    /** Sentences undone, for redo, the latest undone last. */
+    future: Sentence[]
+    outcome?: 'solved' | 'skipped'
+}
+
+export type ExerciseAction =
+    /** At the end, or before the word at `at`. */
+    | { type: 'select'; word: SentenceToken; at?: number }
+    | { type: 'remove'; index: number }
+    | { type: 'reorder'; from: number; to: number }
+    | { type: 'type'; text: string }
+    | { type: 'check'; mode: 'pick' | 'type' }
+    | { type: 'skip' }
+    | { type: 'undo' }
+    | { type: 'redo' }
+    /** The end of the pause after a right answer. */
+    | { type: 'advance' }
+
+/**
+ * A marked order (object first, possessor after its noun) is still right,
+ * but scores a little less than the plain one.
+ */
+const MARKED_ORDER_POINTS = 8
+
+/**
+ * One sentence of the case exercise with nothing of React in it: a state,
+ * and a reducer that takes it from one state to the next. The only random
+ * part, the order of the fixed words, comes from `random`.
+ */
+export function createExercise(
+    clause: Clause,
+    random: SeededRandom
+): ExerciseState {
+    return {
+        phase: 'answering',
+        clause,
+        fixedWords: random.shuffle(
+            sentenceOf(clause).filter(
+                (word) =>
+                    word instanceof WordSimple || isPrepositionGoverning(word)
+            )
+        ),
+        sentence: [],
+        typed: '',
+        past: [],
+        future: [],
+    }
+}
+
+/**
+ * The next state after `action`. An action that makes no sense in the
+ * current phase, like a second check while a right answer is on show,
+ * gives back `state` itself.
+ */
+export function exerciseReducer(
+    state: ExerciseState,
+    action: ExerciseAction
+): ExerciseState {
+    if (action.type === 'advance') {
+        return state.phase === 'correct'
+            ? { ...state, phase: 'finished', outcome: 'solved' }
+            : state
+    }
+    if (state.phase === 'correct' || state.phase === 'finished') {
+        return state
+    }
+    const { sentence } = state
+
+    switch (action.type) {
+        case 'select': {
+            const at = action.at ?? sentence.length
+            if (at < 0 || at > sentence.length) {
+                return state
+            }
+            return withSentence(state, [
+                ...sentence.slice(0, at),
+                action.word,
+                ...sentence.slice(at),
+            ])
+        }
+        case 'remove':
+            if (!(action.index in sentence)) {
+                return state
+            }
+            return withSentence(
+                state,
+                sentence.filter((_, index) => index !== action.index)
+            )
+        case 'reorder': {
+            const { from, to } = action
+            if (!(from in sentence) || !(to in sentence) || from === to) {
+                return state
+            }
+            const reordered = [...sentence]
+            reordered.splice(to, 0, ...reordered.splice(from, 1))
+            return withSentence(state, reordered)
+        }
+        case 'type':
+            return { ...state, phase: 'answering', typed: action.text }
+        case 'check':
+            return checked(state, action.mode)
+        case 'skip':
+            return { ...state, phase: 'finished', outcome: 'skipped' }
+        case 'undo': {
+            const previous = state.past[state.past.length - 1]
+            if (!previous) {
+                return state
+            }
+            return {
+                ...state,
+                phase: 'answering',
+                sentence: previous,
+                past: state.past.slice(0, -1),
+                future: [...state.future, sentence],
+            }
+        }
+        case 'redo': {
+            const next = state.future[state.future.length - 1]
+            if (!next) {
+                return state
+            }
+            return {
+                ...state,
+                phase: 'answering',
+                sentence: next,
+                past: [...state.past, sentence],
+                future: state.future.slice(0, -1),
+            }
+        }
+    }
+}
+
+/** A change the learner made, which can be undone. */
+function withSentence(state: ExerciseState, sentence: Sentence): ExerciseState {
+    return {
+        ...state,
+        phase: 'answering',
+        sentence,
+        past: [...state.past, state.sentence],
+        future: [],
+    }
+}
+
+function checked(state: ExerciseState, mode: 'pick' | 'type'): ExerciseState {
+    // Any change leaves the checking phase, so this is the answer found
+    // wrong last time: checking it again would only cost another attempt.
+    if (state.phase === 'checking' && state.lastCheck?.mode === mode) {
+        return state
+    }
+    let answer = state.sentence
+    let unknown: string[] = []
+    if (mode === 'type') {
+        ;({ sentence: answer, unknown } = parseTypedAnswer(
+            state.typed,
+            state.clause
+        ))
+    }
+    const diagnosis = diagnose(answer, state.clause)
+    for (const token of diagnosis.tokens) {
+        // Most likely a typo rather than a word too many.
+        if (token.token && unknown.includes(token.token.value)) {
+            token.explanation = `"${token.token.value}" is not a form of any word in this exercise. Check the spelling.`
+        }
+    }
+    return {
+        ...state,
+        phase: diagnosis.isCorrect ? 'correct' : 'checking',
+        // A typed answer replaces the sentence; undo is for picked words.
+        sentence: answer,
+        lastCheck: {
+            diagnosis,
+            answer,
+            attempt: (state.lastCheck?.attempt ?? 0) + 1,
+            mode,
+        },
+    }
+}
+
+/** What to tell the learner about a checked answer. */
+export function feedbackOf(diagnosis: Diagnosis): string {
+    const { wordOrder } = diagnosis
+    if (diagnosis.isCorrect) {
+        return wordOrder.isMarked
+            ? `Correct! ${wordOrder.message}`
+            : 'Correct! The case endings match the sentence meaning.'
+    }
+    return `Try again! ${diagnosis.messages[0] ?? wordOrder.message ?? 'Check the highlighted words.'}`
+}
+
+/** What a checked answer adds to (or takes off) the score. */
+export function pointsFor(diagnosis: Diagnosis): number {
+    if (!diagnosis.isCorrect) {
+        return -5
+    }
+    return diagnosis.wordOrder.isMarked ? MARKED_ORDER_POINTS : 10
+}
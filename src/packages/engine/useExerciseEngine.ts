@@ -0,0 +1,65 @@
+import { useEffect, useReducer, useRef } from 'react'
+import type { Clause } from '../grammar/sentence'
+import { randomSeed, SeededRandom } from '../random/seededRandom'
+import {
+    createExercise,
+    exerciseReducer,
+    type CheckedAnswer,
+    type ExerciseState,
+} from './exerciseEngine'
+
+interface ExerciseEngineOptions {
+    /** For the order of the fixed words; a random one if left out. */
+    seed?: number
+    /** Every checked answer, right or wrong. */
+    onCheck: (check: CheckedAnswer) => void
+    /** Once, when the exercise is solved or skipped. */
+    onFinish: (outcome: NonNullable<ExerciseState['outcome']>) => void
+    /** How long a right answer stays on show, in milliseconds. */
+    delay?: number
+}
+
+/**
+ * Runs the exercise engine for one clause in a component. The pause after
+ * a right answer is the engine's `correct` phase, so there is one timer per
+ * right answer however often Check is clicked. Give the component a new
+ * `key` for the next clause.
+ */
+export function useExerciseEngine(
+    clause: Clause,
+    { seed, onCheck, onFinish, delay = 2000 }: ExerciseEngineOptions
+) {
+    const [state, dispatch] = useReducer(exerciseReducer, clause, (initial) =>
+        createExercise(initial, new SeededRandom(seed ?? randomSeed()))
+    )
+    // The effects run on state changes only, so they read the latest
+    // callbacks from here.
+    const onCheckRef = useRef(onCheck)
+    const onFinishRef = useRef(onFinish)
+    useEffect(() => {
+        onCheckRef.current = onCheck
+        onFinishRef.current = onFinish
+    })
+
+    useEffect(() => {
+        if (state.lastCheck) {
+            onCheckRef.current(state.lastCheck)
+        }
+    }, [state.lastCheck])
+
+    useEffect(() => {
+        if (state.phase !== 'correct') {
+            return
+        }
+        const timer = setTimeout(() => dispatch({ type: 'advance' }), delay)
+        return () => clearTimeout(timer)
+    }, [state.phase, delay])
+
+    useEffect(() => {
+        if (state.outcome) {
+            onFinishRef.current(state.outcome)
+        }
+    }, [state.outcome])
+
+    return [state, dispatch] as const
+}
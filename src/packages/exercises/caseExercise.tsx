@@ -0,0 +1,482 @@
+import { useRef, useState } from 'react'
+import AdjectiveChoices from '../choices/adjectiveChoices'
+import type { CaseNumberGridProps } from '../choices/caseNumberGrid'
+import DemonstrativeChoices from '../choices/demonstrativeChoices'
+import NounChoices from '../choices/nounChoices'
+import PronounChoices from '../choices/pronounChoices'
+import VerbChoices from '../choices/verbChoices'
+import { feedbackOf } from '../engine/exerciseEngine'
+import { useExerciseEngine } from '../engine/useExerciseEngine'
+import { isAdjectiveDeclined } from '../grammar/adjective'
+import { isDemonstrativeDeclined } from '../grammar/demonstrative'
+import type { Diagnosis } from '../grammar/diagnosis'
+import { isNounDeclined, type DeclinationOfNoun } from '../grammar/noun'
+import {
+    isPronounDeclined,
+    type DeclinationOfPronoun,
+} from '../grammar/pronoun'
+import {
+    caseOf,
+    lemmaOf,
+    paradigmOf,
+    sentenceOf,
+    type Sentence,
+    type SentenceToken,
+} from '../grammar/sentence'
+import { isVerbConjugated } from '../grammar/verb'
+import type { Scenario } from '../lessons/lessonPack'
+import type { ProfileSettings } from '../profile/learnerProfile'
+import type { ConsumableId } from '../shop/shopItems'
+import SayButton from '../speech/sayButton'
+import SentenceBuilder from './sentenceBuilder'
+import SpecialCharacterKeyboard from './specialCharacterKeyboard'
+
+/** The shop's helpers, as far as the learner owns them. */
+export interface ExerciseTools {
+    /** The "Show Case" toggle, with the case lens. */
+    showCase?: { isOn: boolean; onToggle: () => void }
+    /** Meanings by lemma, with the pocket glossary. */
+    glossary?: Record<string, string>
+    /** How many of each consumable are left. */
+    consumables: Record<ConsumableId, number>
+    onSpend: (item: ConsumableId) => void
+}
+
+type AnswerMode = ProfileSettings['answerMode']
+
+interface CaseExerciseProps {
+    scenario: Scenario
+    /** For the order of the word buttons; a random one if left out. */
+    seed?: number
+    tools: ExerciseTools
+    /** Build the sentence from buttons, or type it. */
+    answerMode: AnswerMode
+    onAnswerModeChange: (mode: AnswerMode) => void
+    /**
+     * Every checked answer, right or wrong, with the learner's sentence.
+     * `attempt` is 1 for the first check of this scenario.
+     */
+    onCheck: (diagnosis: Diagnosis, answer: Sentence, attempt: number) => void
+    /** A moment after a right answer, once the feedback has been read. */
+    onSolved: () => void
+    /** Moving on without an answer; there is no Skip button without it. */
+    onSkip?: () => void
+}
+
+/**
+ * One scenario of the case exercise: the learner builds the Old English
+ * sentence from word choices, or types it, and gets it checked word by
+ * word. The exercise itself is run by the exercise engine; this is the
+ * view of it. Give it a `key` per scenario so its state starts fresh for
+ * the next one.
+ */
+export default function CaseExercise({
+    scenario,
+    seed,
+    tools,
+    answerMode,
+    onAnswerModeChange,
+    onCheck,
+    onSolved,
+    onSkip,
+}: CaseExerciseProps) {
+    const [state, dispatch] = useExerciseEngine(scenario.clause, {
+        seed,
+        onCheck: ({ diagnosis, answer, attempt }) =>
+            onCheck(diagnosis, answer, attempt),
+        onFinish: (outcome) => (outcome === 'solved' ? onSolved() : onSkip?.()),
+    })
+    const { phase, sentence, typed } = state
+    const diagnosis =
+        phase === 'checking' || phase === 'correct'
+            ? state.lastCheck?.diagnosis
+            : undefined
+    /** Words of the model answer whose case a case reveal has told. */
+    const [revealed, setRevealed] = useState<SentenceToken[]>([])
+    /** Paradigms an eliminator has been used on. */
+    const [eliminated, setEliminated] = useState<Paradigm[]>([])
+    const showCase = tools.showCase?.isOn ?? false
+    const typedRef = useRef<HTMLInputElement>(null)
+    const isTyping = answerMode === 'type'
+
+    const expected = sentenceOf(scenario.clause)
+    const nextToReveal = [
+        ...expected.filter(
+            (word) => isNounDeclined(word) || isPronounDeclined(word)
+        ),
+        ...expected.filter(
+            (word) => isDemonstrativeDeclined(word) || isAdjectiveDeclined(word)
+        ),
+    ].find((word) => !revealed.includes(word))
+    const nextToEliminate = expected
+        .filter((word) => isNounDeclined(word) || isPronounDeclined(word))
+        .map(paradigmOf)
+        .find((paradigm) => !eliminated.includes(paradigm))
+
+    /** Where the next picked word goes; at the end if undefined. */
+    const [insertAt, setInsertAt] = useState<number>()
+    /** The last thing done to the sentence, for screen readers. */
+    const [announcement, setAnnouncement] = useState('')
+    const sentenceText = sentence.map((word) => word.value).join(' ')
+
+    const handleWordSelection = (word: SentenceToken) => {
+        dispatch({ type: 'select', word, at: insertAt })
+        setAnnouncement(
+            insertAt === undefined
+                ? `Added "${word.value}".`
+                : `Added "${word.value}" at position ${insertAt + 1}.`
+        )
+        if (insertAt !== undefined) {
+            setInsertAt(insertAt + 1)
+        }
+    }
+
+    const checkAnswer = () => dispatch({ type: 'check', mode: answerMode })
+
+    /** Types at the cursor, as if the key were on the keyboard. */
+    const insertCharacter = (character: string) => {
+        const input = typedRef.current
+        const start = input?.selectionStart ?? typed.length
+        const end = input?.selectionEnd ?? typed.length
+        dispatch({
+            type: 'type',
+            text: typed.slice(0, start) + character + typed.slice(end),
+        })
+        requestAnimationFrame(() =>
+            input?.setSelectionRange(start + 1, start + 1)
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-gray-100/50 p-4 rounded">
+                <h3 className="font-bold">Scenario:</h3>
+                <p className="initial">{scenario.modernTranslation}</p>
+                <p className="text-sm text-gray-600 mt-2">
+                    Hint: {scenario.hint}
+                </p>
+                {revealed.map((word, index) => (
+                    <p key={index} className="text-sm text-gray-600">
+                        "{lemmaOf(word)}" is {caseOf(word)}
+                        {'number' in word && ` ${word.number}`} here.
+                    </p>
+                ))}
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-sm">
+                {(['pick', 'type'] as const).map((mode) => (
+                    <button
+                        key={mode}
+                        aria-pressed={answerMode === mode}
+                        onClick={() => onAnswerModeChange(mode)}
+                        className={`px-3 py-1 rounded ${
+                            answerMode === mode
+                                ? 'bg-amber-300'
+                                : 'bg-amber-100 hover:bg-amber-200'
+                        }`}
+                    >
+                        {mode === 'pick' ? 'Pick words' : 'Type it'}
+                    </button>
+                ))}
+                <button
+                    disabled={!tools.consumables.revealCase || !nextToReveal}
+                    onClick={() => {
+                        if (nextToReveal) {
+                            tools.onSpend('revealCase')
+                            setRevealed([...revealed, nextToReveal])
+                        }
+                    }}
+                    className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+                >
+                    Case reveal ({tools.consumables.revealCase} left)
+                </button>
+                {!isTyping && (
+                    <button
+                        disabled={
+                            !tools.consumables.eliminateForms ||
+                            !nextToEliminate
+                        }
+                        onClick={() => {
+                            if (nextToEliminate) {
+                                tools.onSpend('eliminateForms')
+                                setEliminated([...eliminated, nextToEliminate])
+                            }
+                        }}
+                        className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+                    >
+                        Eliminator ({tools.consumables.eliminateForms} left)
+                    </button>
+                )}
+            </div>
+
+            {tools.glossary && (
+                <dl className="bg-gray-100/50 p-4 rounded text-sm grid grid-cols-2 gap-x-4">
+                    {[...new Set(expected.map(lemmaOf))]
+                        .filter((lemma) => tools.glossary?.[lemma])
+                        .map((lemma) => (
+                            <div key={lemma} className="contents">
+                                <dt className="font-bold">{lemma}</dt>
+                                <dd>{tools.glossary?.[lemma]}</dd>
+                            </div>
+                        ))}
+                </dl>
+            )}
+
+            {isTyping ? (
+                <div className="space-y-2 my-4">
+                    <input
+                        ref={typedRef}
+                        value={typed}
+                        onChange={(event) =>
+                            dispatch({ type: 'type', text: event.target.value })
+                        }
+                        onKeyDown={(event) => {
+                            if (event.key === 'Enter') {
+                                checkAnswer()
+                            }
+                        }}
+                        aria-label="Your sentence in Old English"
+                        placeholder="e.g. se cyning greteth thone biscop"
+                        autoCapitalize="off"
+                        autoCorrect="off"
+                        spellCheck={false}
+                        className="w-full px-3 py-2 rounded border bg-white/70"
+                    />
+                    <SpecialCharacterKeyboard onInsert={insertCharacter} />
+                    <p className="text-sm text-gray-600">
+                        You can write th for þ and ae for æ, and leave out the
+                        macrons.
+                    </p>
+                </div>
+            ) : (
+                <>
+                    <div className="flex flex-wrap gap-2 my-4">
+                        {state.fixedWords.map((word, index) => (
+                            <button
+                                key={index}
+                                onClick={() => handleWordSelection(word)}
+                                className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                            >
+                                {word.value}
+                            </button>
+                        ))}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2 my-4">
+                        {sentenceOf(scenario.clause)
+                            .filter(
+                                (word, index, pattern) =>
+                                    pattern.findIndex(
+                                        (other) =>
+                                            paradigmOf(other) ===
+                                            paradigmOf(word)
+                                    ) === index
+                            )
+                            .map((word) => {
+                                if (isNounDeclined(word)) {
+                                    return (
+                                        <NounChoices
+                                            key={word.declinations.base.value}
+                                            declinations={word.declinations}
+                                            onSelect={handleWordSelection}
+                                            isEliminated={eliminatorFor(
+                                                word.declinations,
+                                                expected,
+                                                eliminated
+                                            )}
+                                        />
+                                    )
+                                } else if (isPronounDeclined(word)) {
+                                    return (
+                                        <PronounChoices
+                                            key={word.declinations.base.value}
+                                            declinations={word.declinations}
+                                            onSelect={handleWordSelection}
+                                            isEliminated={eliminatorFor(
+                                                word.declinations,
+                                                expected,
+                                                eliminated
+                                            )}
+                                        />
+                                    )
+                                } else if (isVerbConjugated(word)) {
+                                    return (
+                                        <VerbChoices
+                                            key={
+                                                word.conjugations.infinitive
+                                                    .value
+                                            }
+                                            conjugations={word.conjugations}
+                                            onSelect={handleWordSelection}
+                                        />
+                                    )
+                                } else if (isAdjectiveDeclined(word)) {
+                                    return (
+                                        <AdjectiveChoices
+                                            key={word.declinations.base.value}
+                                            declinations={word.declinations}
+                                            degree={word.degree}
+                                            onSelect={handleWordSelection}
+                                        />
+                                    )
+                                } else if (isDemonstrativeDeclined(word)) {
+                                    return (
+                                        <DemonstrativeChoices
+                                            key={word.declinations.base.value}
+                                            declinations={word.declinations}
+                                            onSelect={handleWordSelection}
+                                        />
+                                    )
+                                }
+                            })}
+                    </div>
+                </>
+            )}
+
+            <div className="bg-gray-100/50 p-4 rounded border flex justify-between">
+                <div>
+                    <h3 className="font-bold mb-2">
+                        Your Sentence:{' '}
+                        {sentence.length > 0 && (
+                            <SayButton text={sentenceText} />
+                        )}
+                    </h3>
+                    {sentence.length > 0 && (
+                        <p className="text-sm text-gray-600 mb-2">
+                            /
+                            {sentence
+                                .map((word) => word.pronunciation)
+                                .join(' ')}
+                            /
+                        </p>
+                    )}
+                    <SentenceBuilder
+                        sentence={sentence}
+                        diagnosis={diagnosis}
+                        showCase={showCase}
+                        glossary={tools.glossary}
+                        isLocked={isTyping || phase === 'correct'}
+                        insertAt={insertAt}
+                        onInsertAtChange={setInsertAt}
+                        onMove={(from, to) => {
+                            dispatch({ type: 'reorder', from, to })
+                            setInsertAt(undefined)
+                        }}
+                        onRemove={(index) => {
+                            dispatch({ type: 'remove', index })
+                            setInsertAt(undefined)
+                        }}
+                        onAnnounce={setAnnouncement}
+                    />
+                    {diagnosis && !diagnosis.isCorrect && (
+                        <ul className="text-sm mt-2 list-disc pl-4">
+                            {diagnosis.tokens
+                                .filter((token) => token.explanation)
+                                .map((token, index) => (
+                                    <li key={index}>{token.explanation}</li>
+                                ))}
+                        </ul>
+                    )}
+                </div>
+                {tools.showCase && (
+                    <button onClick={tools.showCase.onToggle}>Show Case</button>
+                )}
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+                <button
+                    onClick={checkAnswer}
+                    disabled={phase === 'correct'}
+                    className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50"
+                >
+                    Check Answer
+                </button>
+                {!isTyping && (
+                    <>
+                        <button
+                            onClick={() => {
+                                dispatch({ type: 'undo' })
+                                setInsertAt(undefined)
+                                setAnnouncement('Undone.')
+                            }}
+                            disabled={!state.past.length || phase === 'correct'}
+                            className="px-4 py-2 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+                        >
+                            Undo
+                        </button>
+                        <button
+                            onClick={() => {
+                                dispatch({ type: 'redo' })
+                                setInsertAt(undefined)
+                                setAnnouncement('Redone.')
+                            }}
+                            disabled={
+                                !state.future.length || phase === 'correct'
+                            }
+                            className="px-4 py-2 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+                        >
+                            Redo
+                        </button>
+                    </>
+                )}
+                {onSkip && (
+                    <button
+                        onClick={() => dispatch({ type: 'skip' })}
+                        disabled={phase === 'correct'}
+                        className="px-4 py-2 bg-amber-100 rounded hover:bg-amber-200 disabled:opacity-50"
+                    >
+                        Skip
+                    </button>
+                )}
+            </div>
+
+            <p role="status" aria-live="polite" className="sr-only">
+                {diagnosis
+                    ? feedbackOf(diagnosis)
+                    : announcement &&
+                      `${announcement} Your sentence: ${sentenceText || 'empty'}.`}
+            </p>
+
+            {diagnosis && (
+                <div
+                    className={`p-4 rounded ${
+                        diagnosis.isCorrect ? 'bg-green-100' : 'bg-red-100'
+                    }`}
+                >
+                    {feedbackOf(diagnosis)}
+                </div>
+            )}
+        </div>
+    )
+}
+
+type Paradigm = ReturnType<typeof paradigmOf>
+
+/**
+ * Once an eliminator has been used on a noun or pronoun, strikes out every
+ * form of it except those the model answer uses and one decoy, the first
+ * other spelling in the table.
+ */
+function eliminatorFor(
+    declinations: DeclinationOfNoun<string> | DeclinationOfPronoun<string>,
+    expected: Sentence,
+    eliminated: Paradigm[]
+): CaseNumberGridProps['isEliminated'] {
+    if (!eliminated.includes(declinations)) {
+        return undefined
+    }
+    const kept = new Set(
+        expected
+            .filter((word) => paradigmOf(word) === declinations)
+            .map((word) => word.value)
+    )
+    const table = declinations.declinationTable
+    const decoy = Object.values(table)
+        .flatMap((numberInfo) => Object.values(numberInfo ?? {}))
+        .map((form) => form?.value)
+        .find((value) => value !== undefined && !kept.has(value))
+    return (caseGram, number) => {
+        const value = table[caseGram]?.[number]?.value
+        return value !== undefined && value !== decoy && !kept.has(value)
+    }
+}
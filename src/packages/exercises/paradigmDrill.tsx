@@ -0,0 +1,307 @@
+import { useRef, useState } from 'react'
+import type { DeclinationOfNoun } from '../grammar/noun'
+import type {
+    DeclensionClass,
+    GrammaticalGender,
+    Strength,
+} from '../grammar/types'
+import {
+    cellKey,
+    cellsOf,
+    confusionsOf,
+    DRILL_CASES,
+    gradeTable,
+    matchesFilter,
+    type CellGrade,
+    type NounFilter,
+} from './paradigmTable'
+import SpecialCharacterKeyboard from './specialCharacterKeyboard'
+
+interface ParadigmDrillProps {
+    nouns: DeclinationOfNoun<string>[]
+    /** Meanings by lemma, shown under the noun if there is one. */
+    glossary: Record<string, string>
+    /** Every check of a whole table; `attempt` starts at 1 per noun. */
+    onCheck: (isCorrect: boolean, attempt: number) => void
+}
+
+const GENDERS: GrammaticalGender[] = ['masculine', 'feminine', 'neuter']
+const STRENGTHS: Strength[] = ['strong', 'weak']
+const DECLENSION_CLASSES: DeclensionClass[] = [
+    'a-stem',
+    'ō-stem',
+    'n-stem',
+    'i-stem',
+    'u-stem',
+    'root',
+]
+
+/**
+ * An empty case × number grid for one noun of the lexicon, filled in by
+ * typing. Checking marks each cell and says which forms were put in each
+ * other's place, which is where the endings still run together.
+ */
+export default function ParadigmDrill({
+    nouns,
+    glossary,
+    onCheck,
+}: ParadigmDrillProps) {
+    // Only what the lexicon has is offered as a filter, but a combination
+    // can still match no noun.
+    const [filter, setFilter] = useState<NounFilter>({})
+    const [nounIndex, setNounIndex] = useState(0)
+    const [answers, setAnswers] = useState<Record<string, string>>({})
+    const [grades, setGrades] = useState<CellGrade[]>()
+    const [attempts, setAttempts] = useState(0)
+    const focusedRef = useRef<HTMLInputElement | null>(null)
+
+    const matching = nouns.filter((noun) => matchesFilter(noun, filter))
+    const noun = matching[nounIndex % Math.max(matching.length, 1)]
+    const isSolved = !!grades?.every(({ isCorrect }) => isCorrect)
+
+    const startNoun = (index: number) => {
+        setNounIndex(index)
+        setAnswers({})
+        setGrades(undefined)
+        setAttempts(0)
+    }
+
+    const changeFilter = (changed: NounFilter) => {
+        setFilter({ ...filter, ...changed })
+        startNoun(0)
+    }
+
+    const setAnswer = (key: string, value: string) => {
+        setAnswers({ ...answers, [key]: value })
+        setGrades(undefined)
+    }
+
+    const checkTable = () => {
+        if (!noun) {
+            return
+        }
+        const graded = gradeTable(noun, answers)
+        setGrades(graded)
+        setAttempts(attempts + 1)
+        onCheck(
+            graded.every(({ isCorrect }) => isCorrect),
+            attempts + 1
+        )
+    }
+
+    /** Types into the cell that last had the focus. */
+    const insertCharacter = (character: string) => {
+        const input = focusedRef.current
+        const key = input?.dataset.cell
+        if (!input || !key) {
+            return
+        }
+        const value = answers[key] ?? ''
+        const start = input.selectionStart ?? value.length
+        const end = input.selectionEnd ?? value.length
+        setAnswer(key, value.slice(0, start) + character + value.slice(end))
+        requestAnimationFrame(() =>
+            input.setSelectionRange(start + 1, start + 1)
+        )
+    }
+
+    const cells = noun ? cellsOf(noun) : []
+    const numbers = [...new Set(cells.map(({ number }) => number))]
+    const gradeOf = (key: string) =>
+        grades?.find(({ cell }) => cellKey(cell) === key)
+    const confusions = grades ? confusionsOf(grades) : []
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-2 text-sm">
+                <FilterSelect
+                    label="Gender"
+                    options={GENDERS.filter((gender) =>
+                        nouns.some((noun) => noun.gender === gender)
+                    )}
+                    value={filter.gender}
+                    onChange={(gender) => changeFilter({ gender })}
+                />
+                <FilterSelect
+                    label="Strength"
+                    options={STRENGTHS.filter((strength) =>
+                        nouns.some((noun) => noun.strength === strength)
+                    )}
+                    value={filter.strength}
+                    onChange={(strength) => changeFilter({ strength })}
+                />
+                <FilterSelect
+                    label="Stem class"
+                    options={DECLENSION_CLASSES.filter((declensionClass) =>
+                        nouns.some(
+                            (noun) => noun.declensionClass === declensionClass
+                        )
+                    )}
+                    value={filter.declensionClass}
+                    onChange={(declensionClass) =>
+                        changeFilter({ declensionClass })
+                    }
+                />
+            </div>
+
+            {!noun && <p>No noun in the lexicon fits these filters.</p>}
+
+            {noun && (
+                <>
+                    <div className="bg-gray-100/50 p-4 rounded">
+                        <h3 className="font-bold">
+                            Decline "{noun.base.value}"
+                        </h3>
+                        <p className="text-sm text-gray-600">
+                            {[
+                                glossary[noun.base.value],
+                                noun.gender,
+                                noun.strength,
+                                noun.declensionClass,
+                            ]
+                                .filter((fact) => fact)
+                                .join(' · ')}
+                        </p>
+                    </div>
+
+                    <table className="border-separate border-spacing-2">
+                        <thead>
+                            <tr>
+                                <th />
+                                {numbers.map((number) => (
+                                    <th key={number} className="text-left">
+                                        {number}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {DRILL_CASES.map((caseGram) => (
+                                <tr key={caseGram}>
+                                    <th className="text-left pr-2">
+                                        {caseGram}
+                                    </th>
+                                    {numbers.map((number) => {
+                                        const key = cellKey({
+                                            caseGram,
+                                            number,
+                                        })
+                                        const grade = gradeOf(key)
+                                        return (
+                                            <td key={number}>
+                                                <input
+                                                    data-cell={key}
+                                                    aria-label={key}
+                                                    value={answers[key] ?? ''}
+                                                    onFocus={(event) => {
+                                                        focusedRef.current =
+                                                            event.target
+                                                    }}
+                                                    onChange={(event) =>
+                                                        setAnswer(
+                                                            key,
+                                                            event.target.value
+                                                        )
+                                                    }
+                                                    onKeyDown={(event) => {
+                                                        if (
+                                                            event.key ===
+                                                            'Enter'
+                                                        ) {
+                                                            checkTable()
+                                                        }
+                                                    }}
+                                                    autoCapitalize="off"
+                                                    autoCorrect="off"
+                                                    spellCheck={false}
+                                                    className={`w-32 px-2 py-1 rounded border ${
+                                                        grade
+                                                            ? grade.isCorrect
+                                                                ? 'bg-green-100'
+                                                                : 'bg-red-100'
+                                                            : 'bg-white/70'
+                                                    }`}
+                                                />
+                                            </td>
+                                        )
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+
+                    <SpecialCharacterKeyboard onInsert={insertCharacter} />
+
+                    {confusions.length > 0 && (
+                        <div className="p-4 rounded bg-yellow-100">
+                            <p className="font-bold">Mixed up:</p>
+                            <ul>
+                                {confusions.map(([cell, other]) => (
+                                    <li key={`${cell}-${other}`}>
+                                        the {cell} got the {other} form
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+
+                    <div className="flex gap-2">
+                        {!isSolved && (
+                            <button
+                                onClick={checkTable}
+                                className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                            >
+                                Check
+                            </button>
+                        )}
+                        {isSolved && (
+                            <p className="p-2 rounded bg-green-100">
+                                Correct! Every form is right.
+                            </p>
+                        )}
+                        <button
+                            onClick={() =>
+                                startNoun((nounIndex + 1) % matching.length)
+                            }
+                            className="px-4 py-2 bg-amber-100 rounded hover:bg-amber-200"
+                        >
+                            Next noun
+                        </button>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
+
+function FilterSelect<T extends string>({
+    label,
+    options,
+    value,
+    onChange,
+}: {
+    label: string
+    options: T[]
+    value?: T
+    onChange: (value?: T) => void
+}) {
+    return (
+        <label className="flex items-center gap-1">
+            {label}
+            <select
+                value={value ?? ''}
+                onChange={(event) =>
+                    onChange((event.target.value || undefined) as T | undefined)
+                }
+                className="px-2 py-1 rounded border bg-white/70"
+            >
+                <option value="">any</option>
+                {options.map((option) => (
+                    <option key={option} value={option}>
+                        {option}
+                    </option>
+                ))}
+            </select>
+        </label>
+    )
+}
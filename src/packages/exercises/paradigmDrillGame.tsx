@@ -0,0 +1,20 @@
+import { withDrillAnswer, type GameProps } from '../hub/game'
+import ParadigmDrill from './paradigmDrill'
+
+/** The paradigm drill as a game of the hub, over the pack's nouns. */
+export default function ParadigmDrillGame({
+    pack,
+    onProfileChange,
+}: GameProps) {
+    return (
+        <ParadigmDrill
+            nouns={pack.lexicon.nouns}
+            glossary={pack.glossary}
+            onCheck={(isCorrect, attempt) =>
+                onProfileChange((previous) =>
+                    withDrillAnswer(previous, isCorrect, attempt)
+                )
+            }
+        />
+    )
+}
@@ -0,0 +1,117 @@
+import type { DeclinationOfNoun } from '../grammar/noun'
+import { spellingKey } from '../grammar/orthography'
+import type {
+    DeclensionClass,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    Strength,
+} from '../grammar/types'
+
+/**
+ * The instrumental of a noun is always spelled like its dative, so the
+ * drill leaves it out.
+ */
+export const DRILL_CASES: GrammaticalCase[] = [
+    'nominative',
+    'accusative',
+    'genitive',
+    'dative',
+]
+const NUMBERS: GrammaticalNumber[] = ['singular', 'dual', 'plural']
+
+/** Which nouns to drill. A missing field lets any noun through. */
+export interface NounFilter {
+    gender?: GrammaticalGender
+    strength?: Strength
+    declensionClass?: DeclensionClass
+}
+
+export interface ParadigmCell {
+    caseGram: GrammaticalCase
+    number: GrammaticalNumber
+    form: string
+}
+
+export interface CellGrade {
+    cell: ParadigmCell
+    given: string
+    isCorrect: boolean
+    /**
+     * Other cells the given form belongs in, e.g. the genitive singular
+     * for `cyninges` typed as the dative singular.
+     */
+    confusedWith: ParadigmCell[]
+}
+
+export function matchesFilter(
+    noun: DeclinationOfNoun<string>,
+    { gender, strength, declensionClass }: NounFilter
+): boolean {
+    return (
+        (!gender || noun.gender === gender) &&
+        (!strength || noun.strength === strength) &&
+        (!declensionClass || noun.declensionClass === declensionClass)
+    )
+}
+
+/** The grid to fill in, case by case, with the numbers the noun has. */
+export function cellsOf(noun: DeclinationOfNoun<string>): ParadigmCell[] {
+    return DRILL_CASES.flatMap((caseGram) =>
+        NUMBERS.flatMap((number) => {
+            const form = noun.declinationTable[caseGram]?.[number]?.value
+            return form ? [{ caseGram, number, form }] : []
+        })
+    )
+}
+
+export function cellKey({
+    caseGram,
+    number,
+}: Pick<ParadigmCell, 'caseGram' | 'number'>): string {
+    return `${caseGram} ${number}`
+}
+
+/**
+ * Grades every cell against the stored paradigm. Spellings are compared by
+ * `spellingKey`, so macrons and þ/ð don't matter, as in typed answers. A
+ * form that is right for another cell is reported as confused with it.
+ */
+export function gradeTable(
+    noun: DeclinationOfNoun<string>,
+    answers: Record<string, string>
+): CellGrade[] {
+    const cells = cellsOf(noun)
+    return cells.map((cell) => {
+        const given = (answers[cellKey(cell)] ?? '').trim()
+        const isCorrect =
+            !!given && spellingKey(given) === spellingKey(cell.form)
+        return {
+            cell,
+            given,
+            isCorrect,
+            confusedWith:
+                isCorrect || !given
+                    ? []
+                    : cells.filter(
+                          (other) =>
+                              spellingKey(other.form) === spellingKey(given)
+                      ),
+        }
+    })
+}
+
+/**
+ * Each pair of cells mixed up at least once, e.g. `dative singular` with
+ * `genitive singular`, in the order the grid is read.
+ */
+export function confusionsOf(grades: CellGrade[]): Array<[string, string]> {
+    const pairs = new Map<string, [string, string]>()
+    for (const { cell, confusedWith } of grades) {
+        for (const other of confusedWith) {
+            const pair: [string, string] = [cellKey(cell), cellKey(other)]
+            pairs.set(pair.join(' / '), pair)
+        }
+    }
+    return [...pairs.values()]
+}
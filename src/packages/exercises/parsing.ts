@@ -0,0 +1,174 @@
+import { ROLE_LABELS } from '../grammar/diagnosis'
+import { formsOf } from '../grammar/morphology'
+import { isNounDeclined } from '../grammar/noun'
+import { isPronounDeclined } from '../grammar/pronoun'
+import { lemmaOf, type Clause, type SentenceToken } from '../grammar/sentence'
+import type { GrammaticalRole } from '../grammar/types'
+import { isVerbConjugated } from '../grammar/verb'
+import { piecesOf } from '../grammar/wordOrder'
+
+export type ParsingFeature =
+    'caseGram' | 'number' | 'gender' | 'person' | 'tense'
+
+/** What the learner says a word is, one value per feature. */
+export type ParsingLabel = Partial<Record<ParsingFeature, string>>
+
+export const FEATURE_LABELS: Record<ParsingFeature, string> = {
+    caseGram: 'case',
+    number: 'number',
+    gender: 'gender',
+    person: 'person',
+    tense: 'tense',
+}
+
+const GENDERS = ['masculine', 'feminine', 'neuter']
+
+/** A word of the sentence the learner has to label. */
+export interface ParsingTarget {
+    token: SentenceToken
+    /** Where the word is in `sentenceOf(clause)`. */
+    position: number
+    role: GrammaticalRole
+    /** The choices offered per feature, in the order they are asked. */
+    options: Partial<Record<ParsingFeature, string[]>>
+    /** What the word is in this sentence. */
+    answer: ParsingLabel
+}
+
+export interface ParsingResult {
+    isCorrect: boolean
+    /** Features the learner got wrong or left out. */
+    wrong: ParsingFeature[]
+    explanation?: string
+}
+
+/**
+ * The nouns, pronouns and verbs of a clause, in the order they are read.
+ * Nouns and pronouns are labelled with case, number and gender (first and
+ * second person pronouns have none), verbs with person, number and tense.
+ */
+export function parsingTargets(clause: Clause): ParsingTarget[] {
+    return piecesOf(clause)
+        .flatMap(({ role, words }) => words.map((token) => ({ token, role })))
+        .map(({ token, role }, position) => {
+            const answer = labelOf(token)
+            if (!answer) {
+                return undefined
+            }
+            const options: ParsingTarget['options'] = {}
+            for (const feature of Object.keys(answer) as ParsingFeature[]) {
+                options[feature] =
+                    feature === 'gender'
+                        ? GENDERS
+                        : [
+                              ...new Set(
+                                  formsOf(token).map(
+                                      (form) => labelOf(form)?.[feature] ?? ''
+                                  )
+                              ),
+                          ].filter(
+                              (value) =>
+                                  // Verbs borrow the plural for the dual.
+                                  value &&
+                                  !(
+                                      isVerbConjugated(token) &&
+                                      value === 'dual' &&
+                                      answer.number !== 'dual'
+                                  )
+                          )
+            }
+            return { token, position, role, options, answer }
+        })
+        .filter((target) => target !== undefined)
+}
+
+/**
+ * Checks a label against what the word is here. The form alone often
+ * allows more than one label (cyning is nominative or accusative); such a
+ * label is still wrong, but the explanation says the role decides it.
+ */
+export function checkParsing(
+    target: ParsingTarget,
+    label: ParsingLabel
+): ParsingResult {
+    const features = Object.keys(target.answer) as ParsingFeature[]
+    const wrong = features.filter(
+        (feature) => label[feature] !== target.answer[feature]
+    )
+    if (!wrong.length) {
+        return { isCorrect: true, wrong }
+    }
+    const { token, role } = target
+    const missing = wrong
+        .filter((feature) => !label[feature])
+        .map((feature) => FEATURE_LABELS[feature])
+    if (missing.length) {
+        const list =
+            missing.length > 1
+                ? `${missing.slice(0, -1).join(', ')} and ${missing[missing.length - 1]}`
+                : missing[0]
+        return {
+            isCorrect: false,
+            wrong,
+            explanation: `Give the ${list} of "${token.value}" too.`,
+        }
+    }
+
+    const labelled = formsOf(token).filter((form) => {
+        const reading = labelOf(form)
+        return features.every(
+            (feature) => reading?.[feature] === label[feature]
+        )
+    })
+    const isPossibleForm = labelled.some((form) => form.value === token.value)
+    const describe = (given: ParsingLabel) =>
+        wrong
+            .map((feature) =>
+                feature === 'person'
+                    ? `${given[feature]} person`
+                    : given[feature]
+            )
+            .join(' ')
+    const said = describe(label)
+    const actual = describe(target.answer)
+    const context = isVerbConjugated(token)
+        ? 'its subject'
+        : `being the ${ROLE_LABELS[role]}`
+    return {
+        isCorrect: false,
+        wrong,
+        explanation: isPossibleForm
+            ? `On its own, "${token.value}" could be ${said}, but ${context} makes it ${actual} here.`
+            : labelled.length
+              ? `"${token.value}" cannot be ${said}: that would be "${labelled[0].value}".`
+              : `"${lemmaOf(token)}" has no ${said} form.`,
+    }
+}
+
+/** The features a word is labelled with, or nothing for other words. */
+function labelOf(token: SentenceToken): ParsingLabel | undefined {
+    if (isNounDeclined(token)) {
+        return {
+            caseGram: token.caseGram,
+            number: token.number,
+            gender: token.declinations.gender,
+        }
+    }
+    if (isPronounDeclined(token)) {
+        const { gender } = token.declinations
+        return {
+            caseGram: token.caseGram,
+            number: token.number,
+            // hīe is the plural of all three.
+            ...(gender && token.number === 'singular' ? { gender } : {}),
+        }
+    }
+    if (isVerbConjugated(token)) {
+        return {
+            person: token.person,
+            number: token.number,
+            tense: token.tense,
+        }
+    }
+    return undefined
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react'
+import { lemmaOf, sentenceOf } from '../grammar/sentence'
+import type { Scenario } from '../lessons/lessonPack'
+import SayButton from '../speech/sayButton'
+import WordPopover from '../wordInfo/wordPopover'
+import {
+    checkParsing,
+    FEATURE_LABELS,
+    parsingTargets,
+    type ParsingFeature,
+    type ParsingLabel,
+    type ParsingResult,
+} from './parsing'
+
+interface ParsingDrillProps {
+    scenario: Scenario
+    /** Meanings by lemma for the word popups, with the pocket glossary. */
+    glossary?: Record<string, string>
+    /** Every check of the whole sentence; `attempt` starts at 1. */
+    onCheck: (isCorrect: boolean, attempt: number) => void
+    /** When the learner moves on from a fully parsed sentence. */
+    onSolved: () => void
+}
+
+/**
+ * The case exercise the other way round: the Old English sentence is
+ * given, and the learner taps each noun, pronoun and verb to say what form
+ * it is. The modern translation is kept back until everything is right, so
+ * the endings have to do the work. Give it a `key` per scenario.
+ */
+export default function ParsingDrill({
+    scenario,
+    glossary,
+    onCheck,
+    onSolved,
+}: ParsingDrillProps) {
+    const sentence = useMemo(() => sentenceOf(scenario.clause), [scenario])
+    const targets = useMemo(() => parsingTargets(scenario.clause), [scenario])
+    const [active, setActive] = useState(0)
+    const [labels, setLabels] = useState<ParsingLabel[]>(() =>
+        targets.map(() => ({}))
+    )
+    const [results, setResults] = useState<ParsingResult[]>()
+    const [attempts, setAttempts] = useState(0)
+    const isSolved = !!results?.every(({ isCorrect }) => isCorrect)
+    const target = targets[active]
+
+    const setFeature = (feature: ParsingFeature, value: string) => {
+        setLabels(
+            labels.map((label, index) =>
+                index === active ? { ...label, [feature]: value } : label
+            )
+        )
+        setResults(undefined)
+    }
+
+    const checkLabels = () => {
+        const checked = targets.map((each, index) =>
+            checkParsing(each, labels[index])
+        )
+        setResults(checked)
+        setAttempts(attempts + 1)
+        onCheck(
+            checked.every(({ isCorrect }) => isCorrect),
+            attempts + 1
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="bg-gray-100/50 p-4 rounded">
+                <h3 className="font-bold">Parse the sentence:</h3>
+                <p className="text-sm text-gray-600">
+                    Tap each underlined word and say what form it is.
+                </p>
+                <p className="text-xl mt-2 flex flex-wrap gap-x-2">
+                    {sentence.map((word, position) => {
+                        const index = targets.findIndex(
+                            (each) => each.position === position
+                        )
+                        // Every word tells all about itself once it is done;
+                        // before that, the determiners would give cases away.
+                        if (isSolved) {
+                            return (
+                                <WordPopover
+                                    key={position}
+                                    token={word}
+                                    glossary={glossary}
+                                    className="underline decoration-dotted"
+                                />
+                            )
+                        }
+                        if (index === -1) {
+                            return <span key={position}>{word.value}</span>
+                        }
+                        const result = results?.[index]
+                        return (
+                            <button
+                                key={position}
+                                aria-pressed={index === active}
+                                onClick={() => setActive(index)}
+                                className={`underline decoration-dotted rounded px-1 ${
+                                    result
+                                        ? result.isCorrect
+                                            ? 'bg-green-100'
+                                            : 'bg-red-100'
+                                        : index === active
+                                          ? 'bg-amber-200'
+                                          : ''
+                                }`}
+                            >
+                                {word.value}
+                            </button>
+                        )
+                    })}
+                </p>
+            </div>
+
+            {target && !isSolved && (
+                <div className="space-y-2">
+                    <h4 className="font-bold">
+                        {target.token.value}{' '}
+                        <span className="font-normal text-gray-600">
+                            /{target.token.pronunciation}/ (a form of "
+                            {lemmaOf(target.token)}")
+                        </span>{' '}
+                        <SayButton text={target.token.value} />
+                    </h4>
+                    {(
+                        Object.entries(target.options) as Array<
+                            [ParsingFeature, string[]]
+                        >
+                    ).map(([feature, values]) => (
+                        <div
+                            key={feature}
+                            role="group"
+                            aria-label={FEATURE_LABELS[feature]}
+                            className="flex flex-wrap items-center gap-2"
+                        >
+                            <span className="w-20 text-sm">
+                                {FEATURE_LABELS[feature]}
+                            </span>
+                            {values.map((value) => (
+                                <button
+                                    key={value}
+                                    aria-pressed={
+                                        labels[active][feature] === value
+                                    }
+                                    onClick={() => setFeature(feature, value)}
+                                    className={`px-3 py-1 rounded ${
+                                        labels[active][feature] === value
+                                            ? 'bg-amber-300'
+                                            : 'bg-amber-100 hover:bg-amber-200'
+                                    }`}
+                                >
+                                    {value}
+                                </button>
+                            ))}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {!isSolved && (
+                <button
+                    onClick={checkLabels}
+                    className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                >
+                    Check
+                </button>
+            )}
+
+            {results && !isSolved && (
+                <ul className="p-4 rounded bg-red-100 space-y-1">
+                    {results.map(
+                        (result, index) =>
+                            result.explanation && (
+                                <li key={index}>{result.explanation}</li>
+                            )
+                    )}
+                </ul>
+            )}
+
+            {isSolved && (
+                <div className="p-4 rounded bg-green-100 space-y-2">
+                    <p>Correct! The sentence means (tap a word for more):</p>
+                    <p className="initial">{scenario.modernTranslation}</p>
+                    <button
+                        onClick={onSolved}
+                        className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Next sentence
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,52 @@
+import { withDrillAnswer, type GameProps } from '../hub/game'
+import ParsingDrill from './parsingDrill'
+
+/**
+ * The parsing drill as a game of the hub: it goes through the pack's
+ * scenarios in order, round and round, one lesson per address,
+ * `lesson/<scenario id>`. Without one it starts at the first.
+ */
+export default function ParsingDrillGame({
+    pack: { scenarios },
+    onProfileChange,
+    tools,
+    path: [section, argument],
+    onNavigate,
+}: GameProps) {
+    const index =
+        section === 'lesson'
+            ? scenarios.findIndex(({ id }) => String(id) === argument)
+            : 0
+    const scenario = scenarios[index] as (typeof scenarios)[number] | undefined
+
+    if (!scenario) {
+        return (
+            <p>
+                There is no such lesson in this pack. The link may be mistyped,
+                or made with a newer version.
+            </p>
+        )
+    }
+
+    return (
+        <ParsingDrill
+            key={scenario.id}
+            scenario={scenario}
+            glossary={tools.glossary}
+            onCheck={(isCorrect, attempt) =>
+                onProfileChange((previous) =>
+                    withDrillAnswer(previous, isCorrect, attempt)
+                )
+            }
+            onSolved={() =>
+                onNavigate(
+                    [
+                        'lesson',
+                        String(scenarios[(index + 1) % scenarios.length].id),
+                    ],
+                    { replace: true }
+                )
+            }
+        />
+    )
+}
@@ -0,0 +1,406 @@
+import {
+    Fragment,
+    useEffect,
+    useId,
+    useRef,
+    useState,
+    type KeyboardEvent,
+    type PointerEvent,
+} from 'react'
+import type { Diagnosis, TokenVerdict } from '../grammar/diagnosis'
+import { caseOf, type Sentence } from '../grammar/sentence'
+import WordPopover from '../wordInfo/wordPopover'
+
+interface SentenceBuilderProps {
+    sentence: Sentence
+    /** The last check, while its verdicts are on show. */
+    diagnosis?: Diagnosis
+    /** Shows each word's case under it (the case lens). */
+    showCase: boolean
+    /** Meanings by lemma for the word popups, with the pocket glossary. */
+    glossary?: Record<string, string>
+    /** The words can be looked up but not moved or removed, e.g. while typing. */
+    isLocked: boolean
+    /** Where the next picked word goes: before this word, or at the end. */
+    insertAt?: number
+    onInsertAtChange: (index?: number) => void
+    /** `to` is the word's new index, as in `exerciseReducer`'s reorder. */
+    onMove: (from: number, to: number) => void
+    onRemove: (index: number) => void
+    /** What just happened, for the page's live region. */
+    onAnnounce: (message: string) => void
+}
+
+/** A word being dragged by its handle. */
+interface Drag {
+    from: number
+    startX: number
+    startY: number
+    x: number
+    y: number
+    /** Only once the pointer has moved far enough; a tap isn't a drag. */
+    isDragging: boolean
+    to: number
+}
+
+/** How far, in pixels, the pointer goes before a press becomes a drag. */
+const DRAG_THRESHOLD = 5
+
+const VERDICT_STYLES: Record<TokenVerdict, string> = {
+    correct: 'bg-green-100',
+    wrongCase: 'bg-red-100',
+    wrongNumber: 'bg-red-100',
+    wrongForm: 'bg-red-100',
+    wrongLemma: 'bg-red-100',
+    misplaced: 'bg-yellow-100',
+    extra: 'bg-gray-200 line-through',
+    missing: 'border border-dashed border-red-400',
+}
+
+const VERDICT_LABELS: Record<TokenVerdict, string> = {
+    correct: 'correct',
+    wrongCase: 'wrong case',
+    wrongNumber: 'wrong number',
+    wrongForm: 'wrong form',
+    wrongLemma: 'wrong word',
+    misplaced: 'misplaced',
+    extra: 'extra',
+    missing: 'missing',
+}
+
+/**
+ * The learner's sentence, word by word. Each word has a handle to drag it
+ * to another place, with a mouse or a finger, and the handles take the
+ * keyboard too: the arrow keys go from word to word, Space picks a word up
+ * and puts it down, Delete removes it. The gaps between the words choose
+ * where the next picked word goes.
+ */
+export default function SentenceBuilder({
+    sentence,
+    diagnosis,
+    showCase,
+    glossary,
+    isLocked,
+    insertAt,
+    onInsertAtChange,
+    onMove,
+    onRemove,
+    onAnnounce,
+}: SentenceBuilderProps) {
+    const instructionsId = useId()
+    const wordRefs = useRef<Array<HTMLSpanElement | null>>([])
+    const handleRefs = useRef<Array<HTMLButtonElement | null>>([])
+    /** The word whose handle has the one tab stop. */
+    const [focused, setFocused] = useState(0)
+    /** Set when a key moves the focus, which follows after the render. */
+    const shouldFocusRef = useRef(false)
+    /** The word picked up with the keyboard, and where it was. */
+    const [grabbed, setGrabbed] = useState<{ from: number }>()
+    const [drag, setDrag] = useState<Drag>()
+    const current = Math.max(0, Math.min(focused, sentence.length - 1))
+    const last = sentence.length - 1
+
+    useEffect(() => {
+        if (shouldFocusRef.current) {
+            shouldFocusRef.current = false
+            handleRefs.current[current]?.focus()
+        }
+    })
+
+    const focusWord = (index: number) => {
+        shouldFocusRef.current = true
+        setFocused(index)
+    }
+    const positionOf = (index: number) =>
+        `position ${index + 1} of ${sentence.length}`
+
+    const handleKeyDown = (event: KeyboardEvent, index: number) => {
+        const word = sentence[index].value
+        const steps: Record<string, number> = {
+            ArrowLeft: index - 1,
+            ArrowUp: index - 1,
+            ArrowRight: index + 1,
+            ArrowDown: index + 1,
+            Home: 0,
+            End: last,
+        }
+        if (event.key in steps) {
+            event.preventDefault()
+            const target = Math.max(0, Math.min(last, steps[event.key]))
+            if (!grabbed) {
+                focusWord(target)
+            } else if (target !== index) {
+                onMove(index, target)
+                focusWord(target)
+                onAnnounce(`"${word}", ${positionOf(target)}.`)
+            }
+            return
+        }
+        switch (event.key) {
+            case ' ':
+            case 'Enter':
+                event.preventDefault()
+                if (grabbed) {
+                    setGrabbed(undefined)
+                    onAnnounce(`Put "${word}" down at ${positionOf(index)}.`)
+                } else {
+                    setGrabbed({ from: index })
+                    onAnnounce(
+                        `Picked up "${word}" at ${positionOf(index)}. Move it with the arrow keys and put it down with Space.`
+                    )
+                }
+                return
+            case 'Escape':
+                if (grabbed) {
+                    event.preventDefault()
+                    if (grabbed.from !== index) {
+                        onMove(index, grabbed.from)
+                        focusWord(grabbed.from)
+                    }
+                    setGrabbed(undefined)
+                    onAnnounce(
+                        `"${word}" is back at ${positionOf(grabbed.from)}.`
+                    )
+                }
+                return
+            case 'Delete':
+            case 'Backspace':
+                event.preventDefault()
+                setGrabbed(undefined)
+                onRemove(index)
+                focusWord(Math.min(index, last - 1))
+                onAnnounce(`Removed "${word}".`)
+                return
+            case 'i':
+            case 'I':
+                event.preventDefault()
+                setInsertPoint(index)
+                return
+        }
+    }
+
+    const setInsertPoint = (index: number) => {
+        const isAtEnd = insertAt === index || index >= sentence.length
+        onInsertAtChange(isAtEnd ? undefined : index)
+        onAnnounce(
+            isAtEnd
+                ? 'New words go at the end.'
+                : `New words go before "${sentence[index].value}".`
+        )
+    }
+
+    /** Where among the other words the pointer is, in reading order. */
+    const dropIndexAt = (x: number, y: number, from: number) =>
+        wordRefs.current
+            .slice(0, sentence.length)
+            .filter((element, index) => element && index !== from)
+            .map((element) => element!.getBoundingClientRect())
+            .filter(
+                (rect) =>
+                    y > rect.bottom ||
+                    (y >= rect.top && x > rect.left + rect.width / 2)
+            ).length
+
+    const handlePointerDown = (
+        event: PointerEvent<HTMLButtonElement>,
+        index: number
+    ) => {
+        if (!event.isPrimary || event.button !== 0) {
+            return
+        }
+        event.currentTarget.setPointerCapture(event.pointerId)
+        setDrag({
+            from: index,
+            startX: event.clientX,
+            startY: event.clientY,
+            x: event.clientX,
+            y: event.clientY,
+            isDragging: false,
+            to: index,
+        })
+    }
+
+    const handlePointerMove = (event: PointerEvent<HTMLButtonElement>) => {
+        if (!drag) {
+            return
+        }
+        const { clientX: x, clientY: y } = event
+        const isDragging =
+            drag.isDragging ||
+            Math.hypot(x - drag.startX, y - drag.startY) > DRAG_THRESHOLD
+        setDrag({
+            ...drag,
+            x,
+            y,
+            isDragging,
+            to: isDragging ? dropIndexAt(x, y, drag.from) : drag.to,
+        })
+    }
+
+    const handlePointerUp = () => {
+        if (drag?.isDragging && drag.to !== drag.from) {
+            onMove(drag.from, drag.to)
+            setFocused(drag.to)
+            onAnnounce(
+                `Moved "${sentence[drag.from].value}" to ${positionOf(drag.to)}.`
+            )
+        }
+        setDrag(undefined)
+    }
+
+    /** The gap the dragged word would land in, counted with it still in place. */
+    const dropGap =
+        drag?.isDragging && (drag.to < drag.from ? drag.to : drag.to + 1)
+
+    const gap = (index: number) =>
+        !isLocked && (
+            <button
+                type="button"
+                tabIndex={-1}
+                aria-hidden
+                title="New words go here"
+                onClick={() => setInsertPoint(index)}
+                className={`w-2 self-stretch rounded ${
+                    (drag?.isDragging ? dropGap === index : insertAt === index)
+                        ? 'bg-amber-500'
+                        : 'hover:bg-amber-200'
+                }`}
+            />
+        )
+
+    return (
+        <>
+            {!isLocked && sentence.length > 0 && (
+                <p id={instructionsId} className="sr-only">
+                    The arrow keys go from word to word. Space picks a word up;
+                    the arrow keys then move it, Space puts it down and Escape
+                    puts it back. Delete removes a word, and I makes new words
+                    go before it.
+                </p>
+            )}
+            <div
+                role="list"
+                aria-label="Your sentence"
+                className="flex flex-wrap items-stretch gap-1"
+            >
+                {sentence.map((word, index) => {
+                    const verdict = diagnosis?.tokens[index]?.verdict
+                    const isDragged = drag?.isDragging && drag.from === index
+                    return (
+                        <Fragment key={index}>
+                            {gap(index)}
+                            <span
+                                role="listitem"
+                                ref={(element) => {
+                                    wordRefs.current[index] = element
+                                }}
+                                style={
+                                    isDragged
+                                        ? {
+                                              transform: `translate(${drag.x - drag.startX}px, ${drag.y - drag.startY}px)`,
+                                          }
+                                        : undefined
+                                }
+                                className={`flex items-start rounded ${
+                                    verdict ? VERDICT_STYLES[verdict] : ''
+                                } ${isDragged ? 'relative z-10 opacity-70 shadow-lg' : ''} ${
+                                    grabbed && index === current
+                                        ? 'ring-2 ring-amber-500'
+                                        : ''
+                                }`}
+                            >
+                                {!isLocked && (
+                                    <button
+                                        ref={(element) => {
+                                            handleRefs.current[index] = element
+                                        }}
+                                        type="button"
+                                        tabIndex={index === current ? 0 : -1}
+                                        aria-label={`${word.value}, word ${index + 1} of ${sentence.length}`}
+                                        aria-describedby={instructionsId}
+                                        aria-pressed={
+                                            !!grabbed && index === current
+                                        }
+                                        onFocus={() => setFocused(index)}
+                                        onBlur={(event) => {
+                                            // A moved word's focus goes to
+                                            // its handle at the new place.
+                                            if (
+                                                !handleRefs.current.includes(
+                                                    event.relatedTarget as HTMLButtonElement
+                                                )
+                                            ) {
+                                                setGrabbed(undefined)
+                                            }
+                                        }}
+                                        onKeyDown={(event) =>
+                                            handleKeyDown(event, index)
+                                        }
+                                        onPointerDown={(event) =>
+                                            handlePointerDown(event, index)
+                                        }
+                                        onPointerMove={handlePointerMove}
+                                        onPointerUp={handlePointerUp}
+                                        onPointerCancel={() =>
+                                            setDrag(undefined)
+                                        }
+                                        className="px-1 py-1 cursor-grab touch-none text-gray-400 hover:text-gray-700"
+                                    >
+                                        ⠿
+                                    </button>
+                                )}
+                                <WordPopover
+                                    token={word}
+                                    glossary={glossary}
+                                    className="px-2 py-1 rounded hover:bg-amber-200 flex-col relative"
+                                >
+                                    <div>{word.value}</div>{' '}
+                                    {verdict && (
+                                        <div className="text-xs">
+                                            {VERDICT_LABELS[verdict]}
+                                        </div>
+                                    )}
+                                    <div className="absolute">
+                                        {showCase && caseOf(word)}
+                                    </div>
+                                </WordPopover>
+                                {!isLocked && (
+                                    <button
+                                        type="button"
+                                        tabIndex={-1}
+                                        aria-label={`Remove "${word.value}"`}
+                                        onClick={() => {
+                                            onRemove(index)
+                                            onAnnounce(
+                                                `Removed "${word.value}".`
+                                            )
+                                        }}
+                                        className="px-1 text-gray-500 hover:text-gray-800"
+                                    >
+                                        ×
+                                    </button>
+                                )}
+                            </span>
+                        </Fragment>
+                    )
+                })}
+                {sentence.length > 0 && gap(sentence.length)}
+                {diagnosis?.tokens
+                    .slice(sentence.length)
+                    .map((missing, index) => (
+                        <span
+                            key={`missing-${index}`}
+                            role="listitem"
+                            className={`px-2 py-1 rounded ${VERDICT_STYLES.missing}`}
+                            title={missing.explanation}
+                        >
+                            <div>…</div>
+                            <div className="text-xs">
+                                {VERDICT_LABELS.missing}
+                            </div>
+                        </span>
+                    ))}
+            </div>
+        </>
+    )
+}
@@ -0,0 +1,29 @@
+interface SpecialCharacterKeyboardProps {
+    onInsert: (character: string) => void
+}
+
+const CHARACTERS = ['þ', 'ð', 'æ', 'ǣ', 'ā', 'ē', 'ī', 'ō', 'ū', 'ȳ']
+
+/**
+ * The Old English letters a phone keyboard lacks. Pressing a key doesn't
+ * take the focus away from the text box it types into.
+ */
+export default function SpecialCharacterKeyboard({
+    onInsert,
+}: SpecialCharacterKeyboardProps) {
+    return (
+        <div className="flex flex-wrap gap-1" aria-label="Old English letters">
+            {CHARACTERS.map((character) => (
+                <button
+                    key={character}
+                    type="button"
+                    onMouseDown={(event) => event.preventDefault()}
+                    onClick={() => onInsert(character)}
+                    className="w-9 py-1 bg-amber-100 rounded hover:bg-amber-200"
+                >
+                    {character}
+                </button>
+            ))}
+        </div>
+    )
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest'
+import { diagnose } from '../grammar/diagnosis'
+import { sentenceOf } from '../grammar/sentence'
+import { loadLessonPack } from '../lessons/loadLessonPack'
+import caseMessengerPack from '../lessons/packs/caseMessenger.json'
+import { parseTypedAnswer } from './typedAnswer'
+
+const { scenarios } = loadLessonPack(caseMessengerPack)
+
+/** The model answer as a learner without þ or macrons types it. */
+function typedOnAKeyboard(text: string) {
+    return text
+        .replace(/þ|ð/g, 'th')
+        .replace(/æ/g, 'ae')
+        .normalize('NFD')
+        .replace(/\u0304/g, '')
+}
+
+describe('parseTypedAnswer', () => {
+    it.each(scenarios.map((scenario) => [scenario.id, scenario] as const))(
+        "grades scenario %i's model answer, typed in, as correct",
+        (_, { clause }) => {
+            const text = sentenceOf(clause)
+                .map((word) => word.value)
+                .join(' ')
+            for (const typed of [text, typedOnAKeyboard(text)]) {
+                const { sentence, unknown } = parseTypedAnswer(typed, clause)
+                expect(unknown).toEqual([])
+                expect(diagnose(sentence, clause).isCorrect).toBe(true)
+            }
+        }
+    )
+
+    it('keeps words that are no form of the exercise as they are typed', () => {
+        const [{ clause }] = scenarios
+        const { sentence, unknown } = parseTypedAnswer('xyzzy.', clause)
+        expect(unknown).toEqual(['xyzzy'])
+        expect(sentence.map((word) => word.value)).toEqual(['xyzzy'])
+    })
+})
@@ -0,0 +1,62 @@
+import { formsOf } from '../grammar/morphology'
+import { spellingKey, tokenize } from '../grammar/orthography'
+import {
+    paradigmOf,
+    sentenceOf,
+    type Clause,
+    type Sentence,
+    type SentenceToken,
+} from '../grammar/sentence'
+import WordSimple from '../grammar/wordSimple'
+import { isSameToken } from '../grammar/wordOrder'
+
+export interface TypedAnswer {
+    sentence: Sentence
+    /** Typed words that are no form of any word in the exercise. */
+    unknown: string[]
+}
+
+/**
+ * Reads a typed answer as the tokens the checker works on. Each word is
+ * looked up among the forms of the words the exercise offers, by
+ * `spellingKey`. A spelling that several forms share (cyning is nominative
+ * and accusative) is read as the one the model answer needs, if it is one
+ * of them, so a genuinely ambiguous form is never held against the learner.
+ * Anything else is kept as a plain word for the checker to flag.
+ */
+export function parseTypedAnswer(text: string, clause: Clause): TypedAnswer {
+    const expected = sentenceOf(clause)
+    const candidates = new Map<string, SentenceToken[]>()
+    const paradigms = new Set<unknown>()
+    for (const word of expected) {
+        if (paradigms.has(paradigmOf(word))) {
+            continue
+        }
+        paradigms.add(paradigmOf(word))
+        for (const form of formsOf(word)) {
+            const key = spellingKey(form.value)
+            candidates.set(key, [...(candidates.get(key) ?? []), form])
+        }
+    }
+
+    const unused = [...expected]
+    const unknown: string[] = []
+    const sentence = tokenize(text).map((typed) => {
+        const forms = candidates.get(spellingKey(typed))
+        if (!forms) {
+            unknown.push(typed)
+            return new WordSimple(typed)
+        }
+        for (const form of forms) {
+            const index = unused.findIndex((word) => isSameToken(form, word))
+            if (index !== -1) {
+                // The model answer's own token: for anything but nouns
+                // isSameToken only compares spellings, and `form` may be
+                // another reading of it (þæt nominative, not accusative).
+                return unused.splice(index, 1)[0]
+            }
+        }
+        return forms[0]
+    })
+    return { sentence, unknown }
+}
@@ -0,0 +1,215 @@
+import WordSimple from './wordSimple'
+import { pronounce } from './pronunciation'
+import type {
+    CaseInfo,
+    CaseInfoParam,
+    Degree,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    Strength,
+} from './types'
+
+/**
+ * Unlike determiners, adjectives keep their genders apart in the plural too
+ * (strong gōde / gōda / gōd), so both numbers are looked up by gender.
+ */
+type AdjectiveSet<T extends string> = Record<
+    'singular' | 'plural',
+    Record<GrammaticalGender, CaseInfo<T>>
+>
+
+export type AdjectiveSetParam = Record<
+    'singular' | 'plural',
+    Record<GrammaticalGender, CaseInfoParam>
+>
+
+export class DeclinationOfAdjective<const T extends string> {
+    #base: WordSimple<T>
+    #positive: Record<Strength, AdjectiveSet<T>>
+    #comparative: { weak: AdjectiveSet<T> }
+    #superlative: Record<Strength, AdjectiveSet<T>>
+
+    constructor({
+        base,
+        positive,
+        comparative,
+        superlative,
+    }: {
+        /** Strong masculine nominative singular, e.g. `gōd` */
+        base: T
+        positive: Record<Strength, AdjectiveSetParam>
+        /** Comparatives only ever decline weak. */
+        comparative: { weak: AdjectiveSetParam }
+        superlative: Record<Strength, AdjectiveSetParam>
+    }) {
+        this.#base = new WordSimple(base)
+        this.#positive = {
+            strong: ensureWordSimpleSet(positive.strong),
+            weak: ensureWordSimpleSet(positive.weak),
+        }
+        this.#comparative = { weak: ensureWordSimpleSet(comparative.weak) }
+        this.#superlative = {
+            strong: ensureWordSimpleSet(superlative.strong),
+            weak: ensureWordSimpleSet(superlative.weak),
+        }
+
+        function ensureWordSimpleSet(setUnchecked: AdjectiveSetParam) {
+            const setChecked = {
+                singular: {},
+                plural: {},
+            } as AdjectiveSet<T>
+            for (const numberKey in setUnchecked) {
+                const number = numberKey as keyof AdjectiveSetParam
+                for (const genderKey in setUnchecked[number]) {
+                    const gender = genderKey as GrammaticalGender
+                    const caseChecked = {} as CaseInfo<T>
+                    for (const caseKey in setUnchecked[number][gender]) {
+                        const caseGram = caseKey as GrammaticalCase
+                        caseChecked[caseGram] = new WordSimple(
+                            setUnchecked[number][gender][caseGram]
+                        ) as WordSimple<T>
+                    }
+                    setChecked[number][gender] = caseChecked
+                }
+            }
+            return setChecked
+        }
+    }
+
+    get base() {
+        return this.#base
+    }
+    get positive() {
+        return this.#positive
+    }
+    get comparative() {
+        return this.#comparative
+    }
+    get superlative() {
+        return this.#superlative
+    }
+    get declinationTable() {
+        return {
+            positive: this.#positive,
+            comparative: this.#comparative,
+            superlative: this.#superlative,
+        }
+    }
+
+    /**
+     * Dual nouns take the plural adjective. There is no strong comparative,
+     * so asking for one gives `undefined`.
+     */
+    formOf({
+        degree,
+        strength,
+        gender,
+        caseGram,
+        number,
+    }: {
+        degree: Degree
+        strength: Strength
+        gender: GrammaticalGender
+        caseGram: GrammaticalCase
+        number: GrammaticalNumber
+    }): WordSimple<T> | undefined {
+        const sets: Partial<Record<Strength, AdjectiveSet<T>>> =
+            this.declinationTable[degree]
+        return sets[strength]?.[number === 'singular' ? 'singular' : 'plural'][
+            gender
+        ][caseGram]
+    }
+}
+
+export class AdjectiveDeclined<const T extends string> {
+    #declinations: DeclinationOfAdjective<T>
+    #degree: Degree
+    #strength: Strength
+    #gender: GrammaticalGender
+    #caseGram: GrammaticalCase
+    #number: GrammaticalNumber
+    #value: string
+
+    constructor({
+        declinations,
+        degree = 'positive',
+        strength,
+        gender,
+        caseGram,
+        number,
+    }: {
+        declinations: DeclinationOfAdjective<T>
+        degree?: Degree
+        strength: Strength
+        gender: GrammaticalGender
+        caseGram: GrammaticalCase
+        number: GrammaticalNumber
+    }) {
+        this.#declinations = declinations
+        this.#degree = degree
+        this.#strength = strength
+        this.#gender = gender
+        this.#caseGram = caseGram
+        this.#number = number
+        const potentialValue = declinations.formOf({
+            degree,
+            strength,
+            gender,
+            caseGram,
+            number,
+        })
+        if (typeof potentialValue === 'undefined') {
+            throw new Error(
+                `"${declinations.base.value}" has no ${strength} ${degree} ${gender} ${caseGram} ${number} form.`
+            )
+        } else {
+            this.#value = potentialValue.value
+        }
+    }
+
+    get declinations() {
+        return this.#declinations
+    }
+    get degree() {
+        return this.#degree
+    }
+    get strength() {
+        return this.#strength
+    }
+    get gender() {
+        return this.#gender
+    }
+    get caseGram() {
+        return this.#caseGram
+    }
+    get number() {
+        return this.#number
+    }
+    get value() {
+        return this.#value
+    }
+    get pronunciation() {
+        return pronounce(this.#value)
+    }
+}
+
+export function isAdjectiveDeclined(
+    possibleAdjectiveDeclined: unknown
+): possibleAdjectiveDeclined is AdjectiveDeclined<string> {
+    return possibleAdjectiveDeclined instanceof AdjectiveDeclined
+}
+
+export class AdjectiveDictionary<T extends string> {
+    #declinations = new Map<string, DeclinationOfAdjective<T>>()
+
+    constructor(declinationArr: DeclinationOfAdjective<T>[]) {
+        for (const d of declinationArr) {
+            this.#declinations.set(d.base.value, d)
+        }
+    }
+
+    get(key: string): DeclinationOfAdjective<T> | undefined {
+        return this.#declinations.get(key)
+    }
+}
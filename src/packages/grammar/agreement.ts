@@ -0,0 +1,155 @@
+import { isAdjectiveDeclined } from './adjective'
+import { isDemonstrativeDeclined } from './demonstrative'
+import { isNounDeclined, type NounDeclined } from './noun'
+import { isPronounDeclined } from './pronoun'
+import type { Sentence } from './sentence'
+import { isVerbConjugated } from './verb'
+
+/**
+ * Runs every agreement check over a sentence. Forms are compared by
+ * spelling, so syncretic forms (þæs for masculine and neuter genitive, past
+ * 1st and 3rd singular) are accepted whichever button they came from.
+ *
+ * @returns One learner-facing message per disagreement, empty if all agree.
+ */
+export function findAgreementErrors(sentence: Sentence): string[] {
+    return [
+        ...findDemonstrativeErrors(sentence),
+        ...findAdjectiveErrors(sentence),
+        ...findSubjectVerbErrors(sentence),
+    ]
+}
+
+/**
+ * Every finite verb agrees in person and number with the subject. Dual
+ * subjects (wit, git) take the plural verb.
+ */
+function findSubjectVerbErrors(sentence: Sentence): string[] {
+    const subject = sentence.find(
+        (word) =>
+            (isNounDeclined(word) || isPronounDeclined(word)) &&
+            word.caseGram === 'nominative'
+    )
+    if (!isNounDeclined(subject) && !isPronounDeclined(subject)) {
+        return []
+    }
+    // Nouns are always third person.
+    const person = isPronounDeclined(subject)
+        ? subject.declinations.person
+        : 'third'
+
+    const errors: string[] = []
+    for (const word of sentence) {
+        if (!isVerbConjugated(word) || word.mood === 'imperative') {
+            continue
+        }
+        const expected = word.conjugations.formOf({
+            person,
+            number: subject.number,
+            tense: word.tense,
+            mood: word.mood,
+        })
+        if (expected && !expected.equals(word.value)) {
+            errors.push(
+                `"${word.value}" does not agree with "${subject.value}": a ${person} person ${subject.number} subject needs "${expected.value}".`
+            )
+        }
+    }
+    return errors
+}
+
+/**
+ * A determiner takes its gender from the noun it goes with, and its case
+ * and number from the form that noun is in.
+ */
+function findDemonstrativeErrors(sentence: Sentence): string[] {
+    const errors: string[] = []
+    sentence.forEach((word, index) => {
+        if (!isDemonstrativeDeclined(word)) {
+            return
+        }
+        const noun = headNounAfter(sentence, index)
+        if (!noun) {
+            errors.push(`"${word.value}" must be followed by its noun.`)
+            return
+        }
+
+        const { gender } = noun.declinations
+        const expected = word.declinations.formOf({
+            gender,
+            caseGram: noun.caseGram,
+            number: noun.number,
+        })
+        if (expected && !expected.equals(word.value)) {
+            errors.push(
+                `"${word.value}" does not agree with "${noun.value}": a ${gender} ${noun.caseGram} ${noun.number} noun takes "${expected.value}".`
+            )
+        }
+    })
+    return errors
+}
+
+/**
+ * An attributive adjective is weak after a determiner and strong without
+ * one (comparatives are always weak), and otherwise agrees with its noun
+ * like a determiner does. Adjectives with no noun after them are taken to be
+ * predicative and left alone.
+ */
+function findAdjectiveErrors(sentence: Sentence): string[] {
+    const errors: string[] = []
+    sentence.forEach((word, index) => {
+        if (!isAdjectiveDeclined(word)) {
+            return
+        }
+        const noun = headNounAfter(sentence, index)
+        if (!noun) {
+            return
+        }
+
+        let start = index
+        while (start > 0 && isAdjectiveDeclined(sentence[start - 1])) {
+            start--
+        }
+        const determiner = sentence[start - 1]
+        const hasDeterminer = isDemonstrativeDeclined(determiner)
+        const strength =
+            word.degree === 'comparative' || hasDeterminer ? 'weak' : 'strong'
+
+        const { gender } = noun.declinations
+        const expected = word.declinations.formOf({
+            degree: word.degree,
+            strength,
+            gender,
+            caseGram: noun.caseGram,
+            number: noun.number,
+        })
+        if (expected && !expected.equals(word.value)) {
+            const reason =
+                word.degree === 'comparative'
+                    ? 'comparatives are always weak'
+                    : hasDeterminer
+                      ? `after "${determiner.value}" it must be weak`
+                      : 'with no determiner before it, it must be strong'
+            errors.push(
+                `"${word.value}" is the wrong form: ${reason}, and a ${gender} ${noun.caseGram} ${noun.number} noun takes "${expected.value}".`
+            )
+        }
+    })
+    return errors
+}
+
+/**
+ * The noun that the determiner or adjective at `index` belongs to, skipping
+ * any adjectives in between (se gōda ealda cyning).
+ */
+function headNounAfter(
+    sentence: Sentence,
+    index: number
+): NounDeclined<string> | undefined {
+    let next = index + 1
+    while (isAdjectiveDeclined(sentence[next])) {
+        next++
+    }
+    const noun = sentence[next]
+    return isNounDeclined(noun) ? noun : undefined
+}
@@ -0,0 +1,517 @@
+import { iMutate, isVowel, lastNucleus } from './phonology'
+import type { VerbClass } from './types'
+import {
+    ConjugationOfVerb,
+    type ConjugationOfVerbParam,
+    type TenseInfoParam,
+} from './verb'
+
+type StrongClass = Extract<VerbClass, `strong-${number}`>
+
+type ConjugationForms = Omit<
+    ConjugationOfVerbParam<string>,
+    'infinitive' | 'verbClass'
+>
+
+export type ConjugationOverrides = {
+    present?: DeepPartialTense
+    past?: DeepPartialTense
+    imperative?: Partial<ConjugationForms['imperative']>
+    presentParticiple?: string
+    pastParticiple?: string
+}
+
+type DeepPartialTense = {
+    indicative?: Partial<TenseInfoParam['indicative']>
+    subjunctive?: Partial<TenseInfoParam['subjunctive']>
+}
+
+/**
+ * The past singular, past plural and past participle of a strong verb. Only
+ * the infinitive can be derived from these, not the other way round, so
+ * class VII (and any verb the ablaut tables get wrong) must supply them.
+ */
+export type PrincipalParts = {
+    pastSingular: string
+    pastPlural: string
+    pastParticiple: string
+}
+
+/**
+ * Root vowel of the infinitive → `[past singular, past plural, past
+ * participle]` root vowels.
+ */
+const ABLAUT: Record<
+    Exclude<StrongClass, 'strong-7'>,
+    Record<string, [string, string, string]>
+> = {
+    'strong-1': { ī: ['ā', 'i', 'i'] },
+    'strong-2': { ēo: ['ēa', 'u', 'o'], ū: ['ēa', 'u', 'o'] },
+    'strong-3': {
+        i: ['a', 'u', 'u'],
+        e: ['ea', 'u', 'o'],
+        eo: ['ea', 'u', 'o'],
+        ie: ['ea', 'u', 'o'],
+    },
+    'strong-4': { e: ['æ', 'ǣ', 'o'] },
+    'strong-5': {
+        e: ['æ', 'ǣ', 'e'],
+        i: ['æ', 'ǣ', 'e'],
+        ie: ['ea', 'ēa', 'ie'],
+    },
+    'strong-6': { a: ['ō', 'ō', 'a'] },
+}
+
+/**
+ * Weak class 3 is only four verbs, and every one of them is irregular in
+ * its own way, so they are spelled out.
+ */
+const WEAK_3: Record<string, ConjugationForms> = {
+    habban: weak3('habb', {
+        present: ['hæbbe', 'hæfst', 'hæfþ'],
+        imperative: 'hafa',
+        past: 'hæfd',
+    }),
+    libban: weak3('libb', {
+        present: ['libbe', 'leofast', 'leofaþ'],
+        imperative: 'leofa',
+        past: 'lifd',
+    }),
+    secgan: weak3('secg', {
+        present: ['secge', 'sægst', 'sægþ'],
+        imperative: 'sæge',
+        past: 'sægd',
+    }),
+    hycgan: weak3('hycg', {
+        present: ['hycge', 'hogast', 'hogaþ'],
+        imperative: 'hoga',
+        past: 'hogd',
+    }),
+}
+
+const ANOMALOUS: Record<string, ConjugationForms> = {
+    bēon: {
+        present: {
+            indicative: {
+                firstSingular: 'bēo',
+                secondSingular: 'bist',
+                thirdSingular: 'biþ',
+                plural: 'bēoþ',
+            },
+            subjunctive: { singular: 'bēo', plural: 'bēon' },
+        },
+        // bēon borrows its past from wesan.
+        past: wesanPast(),
+        imperative: { singular: 'bēo', plural: 'bēoþ' },
+        presentParticiple: 'bēonde',
+    },
+    wesan: {
+        present: {
+            indicative: {
+                firstSingular: 'eom',
+                secondSingular: 'eart',
+                thirdSingular: 'is',
+                plural: 'sindon',
+            },
+            subjunctive: { singular: 'sīe', plural: 'sīen' },
+        },
+        past: wesanPast(),
+        imperative: { singular: 'wes', plural: 'wesaþ' },
+        presentParticiple: 'wesende',
+    },
+    dōn: {
+        present: {
+            indicative: {
+                firstSingular: 'dō',
+                secondSingular: 'dēst',
+                thirdSingular: 'dēþ',
+                plural: 'dōþ',
+            },
+            subjunctive: { singular: 'dō', plural: 'dōn' },
+        },
+        past: dentalPast('dyd'),
+        imperative: { singular: 'dō', plural: 'dōþ' },
+        presentParticiple: 'dōnde',
+        pastParticiple: 'gedōn',
+    },
+    gān: {
+        present: {
+            indicative: {
+                firstSingular: 'gā',
+                secondSingular: 'gǣst',
+                thirdSingular: 'gǣþ',
+                plural: 'gāþ',
+            },
+            subjunctive: { singular: 'gā', plural: 'gān' },
+        },
+        past: dentalPast('ēod'),
+        imperative: { singular: 'gā', plural: 'gāþ' },
+        presentParticiple: 'gānde',
+        pastParticiple: 'gegān',
+    },
+    willan: {
+        present: {
+            indicative: {
+                firstSingular: 'wille',
+                secondSingular: 'wilt',
+                thirdSingular: 'wile',
+                plural: 'willaþ',
+            },
+            subjunctive: { singular: 'wille', plural: 'willen' },
+        },
+        past: dentalPast('wold'),
+        presentParticiple: 'willende',
+    },
+}
+
+/**
+ * Builds every finite form of a verb from its infinitive and class, the
+ * same way `declineNoun` does for nouns.
+ *
+ * @example
+ * conjugateVerb({ infinitive: 'grētan', verbClass: 'weak-1' })
+ * // present third singular indicative: 'grēteþ', past: 'grētte'
+ *
+ * conjugateVerb({
+ *     infinitive: 'feallan',
+ *     verbClass: 'strong-7',
+ *     principalParts: {
+ *         pastSingular: 'fēoll',
+ *         pastPlural: 'fēollon',
+ *         pastParticiple: 'gefeallen',
+ *     },
+ * })
+ */
+export function conjugateVerb<const T extends string>({
+    infinitive,
+    verbClass,
+    principalParts,
+    overrides = {},
+}: {
+    infinitive: T
+    verbClass: VerbClass
+    principalParts?: PrincipalParts
+    /** Forms that replace the generated ones, for irregular verbs. */
+    overrides?: ConjugationOverrides
+}): ConjugationOfVerb<T> {
+    const normalized = infinitive.normalize('NFC')
+    const generated = generate(normalized, verbClass, principalParts)
+
+    return new ConjugationOfVerb<T>({
+        infinitive,
+        verbClass,
+        present: mergeTense(generated.present, overrides.present),
+        past: mergeTense(generated.past, overrides.past),
+        imperative: generated.imperative && {
+            ...generated.imperative,
+            ...overrides.imperative,
+        },
+        presentParticiple:
+            overrides.presentParticiple ?? generated.presentParticiple,
+        pastParticiple: overrides.pastParticiple ?? generated.pastParticiple,
+    })
+}
+
+function generate(
+    infinitive: string,
+    verbClass: VerbClass,
+    principalParts?: PrincipalParts
+): ConjugationForms {
+    if (verbClass === 'anomalous') {
+        return lookUp(ANOMALOUS, infinitive, verbClass)
+    }
+    if (verbClass === 'weak-3') {
+        return lookUp(WEAK_3, infinitive, verbClass)
+    }
+    if (verbClass === 'weak-1') {
+        return weak1(infinitive)
+    }
+    if (verbClass === 'weak-2') {
+        return weak2(infinitive)
+    }
+    return strong(infinitive, verbClass, principalParts)
+}
+
+function lookUp(
+    table: Record<string, ConjugationForms>,
+    infinitive: string,
+    verbClass: VerbClass
+) {
+    // An own property only, so "constructor" is no verb of the table.
+    const forms = Object.prototype.hasOwnProperty.call(table, infinitive)
+        ? table[infinitive]
+        : undefined
+    if (!forms) {
+        throw new Error(
+            `"${infinitive}" is not one of the ${verbClass} verbs: ${Object.keys(table).join(', ')}.`
+        )
+    }
+    return forms
+}
+
+/**
+ * fremman (short, doubled consonant), nerian (short, -rian) and hīeran
+ * (long) differ in the present and in whether the past keeps its -e-.
+ */
+function weak1(infinitive: string): ConjugationForms {
+    const presentStem = stripInfinitive(infinitive, 'weak-1')
+
+    if (infinitive.endsWith('rian')) {
+        const stem = infinitive.slice(0, -'ian'.length)
+        return regularWeak({
+            present: [`${stem}ie`, `${stem}est`, `${stem}eþ`, `${stem}iaþ`],
+            subjunctiveStem: `${stem}i`,
+            imperative: [`${stem}e`, `${stem}iaþ`],
+            presentParticiple: `${stem}iende`,
+            pastStem: `${stem}ed`,
+            pastParticiple: `ge${stem}ed`,
+        })
+    }
+
+    const geminate = /(bb|cc|dd|ff|gg|ll|mm|nn|pp|rr|ss|tt|cg)$/.exec(
+        presentStem
+    )
+    if (geminate) {
+        const stem =
+            geminate[1] === 'cg'
+                ? `${presentStem.slice(0, -2)}g`
+                : presentStem.slice(0, -1)
+        return regularWeak({
+            present: [
+                `${presentStem}e`,
+                `${stem}est`,
+                `${stem}eþ`,
+                `${presentStem}aþ`,
+            ],
+            subjunctiveStem: presentStem,
+            imperative: [`${stem}e`, `${presentStem}aþ`],
+            presentParticiple: `${presentStem}ende`,
+            pastStem: `${stem}ed`,
+            pastParticiple: `ge${stem}ed`,
+        })
+    }
+
+    // Long stems add -de, devoiced to -te after a voiceless consonant. A
+    // stem already ending in -t or -d doubles it after a vowel (grētan →
+    // grētte) and absorbs it after a consonant (sendan → sende).
+    const dental = /[cfhpstxþ]$/.test(presentStem) ? 't' : 'd'
+    const pastStem = /[td]$/.test(presentStem)
+        ? isVowel(presentStem.slice(-2, -1))
+            ? presentStem + presentStem.slice(-1)
+            : presentStem
+        : presentStem + dental
+    return regularWeak({
+        present: [
+            `${presentStem}e`,
+            `${presentStem}est`,
+            `${presentStem}eþ`,
+            `${presentStem}aþ`,
+        ],
+        subjunctiveStem: presentStem,
+        imperative: [presentStem, `${presentStem}aþ`],
+        presentParticiple: `${presentStem}ende`,
+        pastStem,
+        pastParticiple: `ge${presentStem}ed`,
+    })
+}
+
+function weak2(infinitive: string): ConjugationForms {
+    if (!infinitive.endsWith('ian')) {
+        throw new Error(`"${infinitive}": weak-2 verbs end in -ian.`)
+    }
+    const stem = infinitive.slice(0, -'ian'.length)
+    return regularWeak({
+        present: [`${stem}ie`, `${stem}ast`, `${stem}aþ`, `${stem}iaþ`],
+        subjunctiveStem: `${stem}i`,
+        imperative: [`${stem}a`, `${stem}iaþ`],
+        presentParticiple: `${stem}iende`,
+        pastStem: `${stem}od`,
+        pastParticiple: `ge${stem}od`,
+    })
+}
+
+function regularWeak({
+    present,
+    subjunctiveStem,
+    imperative,
+    presentParticiple,
+    pastStem,
+    pastParticiple,
+}: {
+    present: [string, string, string, string]
+    subjunctiveStem: string
+    imperative: [string, string]
+    presentParticiple: string
+    /** The past up to the dental suffix, e.g. `lufod`, `hīerd`, `fremed` */
+    pastStem: string
+    pastParticiple: string
+}): ConjugationForms {
+    const [firstSingular, secondSingular, thirdSingular, plural] = present
+    return {
+        present: {
+            indicative: {
+                firstSingular,
+                secondSingular,
+                thirdSingular,
+                plural,
+            },
+            subjunctive: {
+                singular: `${subjunctiveStem}e`,
+                plural: `${subjunctiveStem}en`,
+            },
+        },
+        past: dentalPast(pastStem),
+        imperative: { singular: imperative[0], plural: imperative[1] },
+        presentParticiple,
+        pastParticiple,
+    }
+}
+
+function weak3(
+    stem: string,
+    {
+        present,
+        imperative,
+        past,
+    }: {
+        present: [string, string, string]
+        imperative: string
+        past: string
+    }
+): ConjugationForms {
+    const [firstSingular, secondSingular, thirdSingular] = present
+    return {
+        present: {
+            indicative: {
+                firstSingular,
+                secondSingular,
+                thirdSingular,
+                plural: `${stem}aþ`,
+            },
+            subjunctive: { singular: `${stem}e`, plural: `${stem}en` },
+        },
+        past: dentalPast(past),
+        imperative: { singular: imperative, plural: `${stem}aþ` },
+        presentParticiple: `${stem}ende`,
+        pastParticiple: `ge${past}`,
+    }
+}
+
+function dentalPast(pastStem: string): TenseInfoParam {
+    return {
+        indicative: {
+            firstSingular: `${pastStem}e`,
+            secondSingular: `${pastStem}est`,
+            thirdSingular: `${pastStem}e`,
+            plural: `${pastStem}on`,
+        },
+        subjunctive: { singular: `${pastStem}e`, plural: `${pastStem}en` },
+    }
+}
+
+function wesanPast(): TenseInfoParam {
+    return {
+        indicative: {
+            firstSingular: 'wæs',
+            secondSingular: 'wǣre',
+            thirdSingular: 'wæs',
+            plural: 'wǣron',
+        },
+        subjunctive: { singular: 'wǣre', plural: 'wǣren' },
+    }
+}
+
+function strong(
+    infinitive: string,
+    verbClass: StrongClass,
+    principalParts?: PrincipalParts
+): ConjugationForms {
+    const stem = stripInfinitive(infinitive, verbClass)
+    const { pastSingular, pastPlural, pastParticiple } =
+        principalParts ?? ablaut(stem, verbClass)
+
+    if (!pastPlural.endsWith('on')) {
+        throw new Error(
+            `"${infinitive}": the past plural "${pastPlural}" should end in -on.`
+        )
+    }
+    const pastPluralStem = pastPlural.slice(0, -'on'.length)
+    // The 2nd and 3rd singular present raise e to i and front back vowels:
+    // helpan → hilpeþ, faran → fereþ.
+    const mutatedStem = raiseOrMutate(stem)
+
+    return {
+        present: {
+            indicative: {
+                firstSingular: `${stem}e`,
+                secondSingular: `${mutatedStem}est`,
+                thirdSingular: `${mutatedStem}eþ`,
+                plural: `${stem}aþ`,
+            },
+            subjunctive: { singular: `${stem}e`, plural: `${stem}en` },
+        },
+        past: {
+            indicative: {
+                firstSingular: pastSingular,
+                secondSingular: `${pastPluralStem}e`,
+                thirdSingular: pastSingular,
+                plural: pastPlural,
+            },
+            subjunctive: {
+                singular: `${pastPluralStem}e`,
+                plural: `${pastPluralStem}en`,
+            },
+        },
+        imperative: { singular: stem, plural: `${stem}aþ` },
+        presentParticiple: `${stem}ende`,
+        pastParticiple,
+    }
+}
+
+function ablaut(stem: string, verbClass: StrongClass): PrincipalParts {
+    const grades = verbClass === 'strong-7' ? undefined : ABLAUT[verbClass]
+    const nucleus = lastNucleus(stem)
+    const vowel = nucleus && stem.slice(...nucleus)
+    const grade = grades && vowel ? grades[vowel] : undefined
+    if (!nucleus || !grade) {
+        throw new Error(
+            `"${stem}an": cannot guess the ${verbClass} ablaut, pass principalParts.`
+        )
+    }
+
+    const [start, end] = nucleus
+    const withVowel = (replacement: string) =>
+        stem.slice(0, start) + replacement + stem.slice(end)
+    const [pastSingularVowel, pastPluralVowel, participleVowel] = grade
+    return {
+        pastSingular: withVowel(pastSingularVowel),
+        pastPlural: `${withVowel(pastPluralVowel)}on`,
+        pastParticiple: `ge${withVowel(participleVowel)}en`,
+    }
+}
+
+function raiseOrMutate(stem: string) {
+    const nucleus = lastNucleus(stem)
+    if (nucleus && stem.slice(...nucleus) === 'e') {
+        const [start, end] = nucleus
+        return stem.slice(0, start) + 'i' + stem.slice(end)
+    }
+    return iMutate(stem)
+}
+
+function stripInfinitive(infinitive: string, verbClass: VerbClass) {
+    if (!infinitive.endsWith('an') || infinitive.length <= 2) {
+        throw new Error(`"${infinitive}": ${verbClass} infinitives end in -an.`)
+    }
+    return infinitive.slice(0, -'an'.length)
+}
+
+function mergeTense(
+    generated: TenseInfoParam,
+    overrides: DeepPartialTense = {}
+): TenseInfoParam {
+    return {
+        indicative: { ...generated.indicative, ...overrides.indicative },
+        subjunctive: { ...generated.subjunctive, ...overrides.subjunctive },
+    }
+}
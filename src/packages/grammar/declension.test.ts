@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { declineNoun } from './declension'
+
+describe('declineNoun', () => {
+    it('spells the instrumental like the dative', () => {
+        const dæg = declineNoun({
+            base: 'dæg',
+            gender: 'masculine',
+            declensionClass: 'a-stem',
+        })
+        expect(dæg.instrumental?.singular.value).toBe('dæge')
+        expect(dæg.instrumental?.plural.value).toBe(dæg.dative.plural.value)
+    })
+
+    it('spells the instrumental like an overridden dative', () => {
+        const fæder = declineNoun({
+            base: 'fæder',
+            gender: 'masculine',
+            declensionClass: 'a-stem',
+            overrides: { dative: { singular: 'fæder' } },
+        })
+        expect(fæder.dative.singular.value).toBe('fæder')
+        expect(fæder.instrumental?.singular.value).toBe('fæder')
+        expect(fæder.instrumental?.plural.value).toBe('fæderum')
+    })
+
+    it('keeps an instrumental overridden on its own', () => {
+        const fæder = declineNoun({
+            base: 'fæder',
+            gender: 'masculine',
+            declensionClass: 'a-stem',
+            overrides: { instrumental: { singular: 'fædre' } },
+        })
+        expect(fæder.dative.singular.value).toBe('fædere')
+        expect(fæder.instrumental?.singular.value).toBe('fædre')
+    })
+})
@@ -0,0 +1,412 @@
+import { DeclinationOfAdjective, type AdjectiveSetParam } from './adjective'
+import { DeclinationOfNoun } from './noun'
+import { iMutate, lastNucleus, stemLengthOf } from './phonology'
+import type {
+    DeclensionClass,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumberInfoParam,
+    StemLength,
+} from './types'
+
+/** Nouns have no instrumental forms of their own; see `declineNoun`. */
+type CoreCase = Exclude<GrammaticalCase, 'instrumental'>
+
+type CaseForms = Record<CoreCase, GrammaticalNumberInfoParam>
+
+/** `[singular ending, plural ending]` for each case. */
+type Endings = Record<CoreCase, [string, string]>
+
+export type DeclensionOverrides = Partial<
+    Record<GrammaticalCase, Partial<GrammaticalNumberInfoParam>>
+>
+
+const ALLOWED_GENDERS: Record<DeclensionClass, GrammaticalGender[]> = {
+    'a-stem': ['masculine', 'neuter'],
+    'ō-stem': ['feminine'],
+    'n-stem': ['masculine', 'feminine', 'neuter'],
+    'i-stem': ['masculine', 'feminine', 'neuter'],
+    'u-stem': ['masculine', 'feminine'],
+    root: ['masculine', 'feminine'],
+}
+
+/**
+ * Builds the whole paradigm of a noun from its nominative singular, so
+ * content only has to spell out the forms that break the rules.
+ *
+ * The endings are the normalised late West Saxon ones. Short stems are told
+ * apart from long ones by looking at the last syllable of the stem (see
+ * `stemLengthOf`); pass `stemLength` to skip the guess.
+ *
+ * @example
+ * declineNoun({ base: 'scip', gender: 'neuter', declensionClass: 'a-stem' })
+ * // nominative plural: 'scipu'
+ *
+ * declineNoun({
+ *     base: 'bōc',
+ *     gender: 'feminine',
+ *     declensionClass: 'root',
+ *     overrides: { genitive: { singular: 'bōce' } },
+ * })
+ */
+export function declineNoun<const T extends string>({
+    base,
+    gender,
+    declensionClass,
+    stemLength,
+    overrides = {},
+}: {
+    /** Nominative singular, e.g. `cyning`, `giefu`, `nama` */
+    base: T
+    gender: GrammaticalGender
+    declensionClass: DeclensionClass
+    stemLength?: StemLength
+    /** Forms that replace the generated ones, for irregular nouns. */
+    overrides?: DeclensionOverrides
+}): DeclinationOfNoun<T> {
+    if (!ALLOWED_GENDERS[declensionClass].includes(gender)) {
+        throw new Error(
+            `"${base}": ${declensionClass} nouns cannot be ${gender}.`
+        )
+    }
+
+    const normalized = base.normalize('NFC')
+    const generated = DECLENSIONS[declensionClass]({
+        base: normalized,
+        gender,
+        stemLength,
+    })
+
+    const forms: CaseForms = { ...generated }
+    for (const caseGram in overrides) {
+        if (caseGram !== 'instrumental') {
+            const key = caseGram as CoreCase
+            forms[key] = { ...forms[key], ...overrides[key] }
+        }
+    }
+    // The instrumental of a noun is always spelled like its dative, an
+    // overridden one included, but it is still a case of its own for the
+    // determiners and adjectives that agree with it (þȳ dæge, "on that day").
+    const instrumental = { ...forms.dative, ...overrides?.instrumental }
+
+    return new DeclinationOfNoun<T>({
+        base,
+        gender,
+        strength: declensionClass === 'n-stem' ? 'weak' : 'strong',
+        declensionClass,
+        ...forms,
+        instrumental,
+    })
+}
+
+type DeclensionParams = {
+    base: string
+    gender: GrammaticalGender
+    stemLength?: StemLength
+}
+
+const DECLENSIONS: Record<
+    DeclensionClass,
+    (params: DeclensionParams) => CaseForms
+> = {
+    'a-stem': ({ base, gender, stemLength }) => {
+        const isShort = (stemLength ?? stemLengthOf(base)) === 'short'
+        // dæg → dagas, fæt → fatu: short æ goes back to a before a back
+        // vowel ending.
+        const pluralStem = isShort ? backenAe(base) : base
+        const neuterPlural = isShort ? 'u' : ''
+        return attach(base, pluralStem, {
+            nominative: ['', gender === 'neuter' ? neuterPlural : 'as'],
+            accusative: ['', gender === 'neuter' ? neuterPlural : 'as'],
+            genitive: ['es', 'a'],
+            dative: ['e', 'um'],
+        })
+    },
+
+    'ō-stem': ({ base, stemLength }) => {
+        const stem = stripEnding(base, 'u')
+        const isShort =
+            (stemLength ?? (stem === base ? 'long' : stemLengthOf(stem))) ===
+            'short'
+        return attach(stem, stem, {
+            nominative: [isShort ? 'u' : '', 'a'],
+            accusative: ['e', 'a'],
+            genitive: ['e', 'a'],
+            dative: ['e', 'um'],
+        })
+    },
+
+    'n-stem': ({ base, gender }) => {
+        const nominativeEnding = gender === 'masculine' ? 'a' : 'e'
+        if (!base.endsWith(nominativeEnding)) {
+            throw new Error(
+                `"${base}": ${gender} n-stem nouns end in -${nominativeEnding}.`
+            )
+        }
+        const stem = base.slice(0, -1)
+        return attach(stem, stem, {
+            nominative: [nominativeEnding, 'an'],
+            accusative: [gender === 'neuter' ? 'e' : 'an', 'an'],
+            genitive: ['an', 'ena'],
+            dative: ['an', 'um'],
+        })
+    },
+
+    'i-stem': ({ base, gender, stemLength }) => {
+        if (gender === 'feminine') {
+            return attach(base, base, {
+                nominative: ['', 'a'],
+                accusative: ['e', 'a'],
+                genitive: ['e', 'a'],
+                dative: ['e', 'um'],
+            })
+        }
+
+        const stem = stripEnding(base, 'e')
+        const isShort =
+            (stemLength ?? (stem === base ? 'long' : stemLengthOf(stem))) ===
+            'short'
+        if (!isShort) {
+            // Long-stemmed i-stems (giest, flǣsc) went over to the a-stems.
+            return DECLENSIONS['a-stem']({ base, gender, stemLength: 'long' })
+        }
+        const plural = gender === 'neuter' ? 'u' : 'e'
+        return attach(stem, stem, {
+            nominative: ['e', plural],
+            accusative: ['e', plural],
+            genitive: ['es', 'a'],
+            dative: ['e', 'um'],
+        })
+    },
+
+    'u-stem': ({ base, stemLength }) => {
+        const stem = stripEnding(base, 'u')
+        const isShort =
+            (stemLength ?? (stem === base ? 'long' : stemLengthOf(stem))) ===
+            'short'
+        return attach(stem, stem, {
+            nominative: [isShort ? 'u' : '', 'a'],
+            accusative: [isShort ? 'u' : '', 'a'],
+            genitive: ['a', 'a'],
+            dative: ['a', 'um'],
+        })
+    },
+
+    root: ({ base, gender }) => {
+        const mutated = iMutate(base)
+        return {
+            nominative: { singular: base, plural: mutated },
+            accusative: { singular: base, plural: mutated },
+            genitive: {
+                singular: gender === 'masculine' ? `${base}es` : mutated,
+                plural: `${base}a`,
+            },
+            dative: { singular: mutated, plural: `${base}um` },
+        }
+    },
+}
+
+function attach(
+    singularStem: string,
+    pluralStem: string,
+    endings: Endings
+): CaseForms {
+    const forms = {} as CaseForms
+    for (const caseGram in endings) {
+        const key = caseGram as CoreCase
+        const [singular, plural] = endings[key]
+        forms[key] = {
+            singular: singularStem + singular,
+            plural: pluralStem + plural,
+        }
+    }
+    return forms
+}
+
+function stripEnding(base: string, ending: string) {
+    return base.endsWith(ending) && base.length > ending.length
+        ? base.slice(0, -ending.length)
+        : base
+}
+
+function backenAe(stem: string) {
+    const [start, end] = lastNucleus(stem) ?? [0, 0]
+    return stem.slice(start, end) === 'æ'
+        ? stem.slice(0, start) + 'a' + stem.slice(end)
+        : stem
+}
+
+/**
+ * Builds the strong and weak paradigms of an adjective in all three degrees.
+ * Regular comparatives add -ra and superlatives -ost; suppletive ones like
+ * gōd → betera → betst are passed in.
+ *
+ * @example
+ * declineAdjective({ base: 'eald', comparative: 'yldra', superlative: 'yldest' })
+ * // weak masculine nominative singular: 'ealda'
+ */
+export function declineAdjective<const T extends string>({
+    base,
+    comparative,
+    superlative,
+    stemLength,
+}: {
+    /** Strong masculine nominative singular, e.g. `gōd`, `grēne` */
+    base: T
+    /** Weak masculine nominative singular, e.g. `betera` */
+    comparative?: string
+    /** Strong masculine nominative singular, e.g. `betst` */
+    superlative?: string
+    stemLength?: StemLength
+}): DeclinationOfAdjective<T> {
+    const normalized = base.normalize('NFC')
+    // ja-stems like grēne keep their -e wherever the others have no ending.
+    const isJaStem = normalized.endsWith('e')
+    const stem = isJaStem ? normalized.slice(0, -1) : normalized
+    const isShort = !isJaStem && (stemLength ?? stemLengthOf(stem)) === 'short'
+    const comparativeStem = comparative
+        ? stripEnding(comparative.normalize('NFC'), 'a')
+        : `${stem}r`
+    const superlativeStem = superlative
+        ? superlative.normalize('NFC')
+        : `${stem}ost`
+
+    return new DeclinationOfAdjective<T>({
+        base,
+        positive: {
+            strong: attachAdjective(
+                stem,
+                strongAdjectiveEndings({ isShort, isJaStem })
+            ),
+            weak: attachAdjective(stem, WEAK_ADJECTIVE_ENDINGS),
+        },
+        comparative: {
+            weak: attachAdjective(comparativeStem, WEAK_ADJECTIVE_ENDINGS),
+        },
+        superlative: {
+            strong: attachAdjective(
+                superlativeStem,
+                strongAdjectiveEndings({ isShort: false, isJaStem: false })
+            ),
+            weak: attachAdjective(superlativeStem, WEAK_ADJECTIVE_ENDINGS),
+        },
+    })
+}
+
+function strongAdjectiveEndings({
+    isShort,
+    isJaStem,
+}: {
+    isShort: boolean
+    isJaStem: boolean
+}): AdjectiveSetParam {
+    const zero = isJaStem ? 'e' : ''
+    const shortU = isShort ? 'u' : zero
+    return {
+        singular: {
+            masculine: {
+                nominative: zero,
+                accusative: 'ne',
+                genitive: 'es',
+                dative: 'um',
+                instrumental: 'e',
+            },
+            feminine: {
+                nominative: shortU,
+                accusative: 'e',
+                genitive: 're',
+                dative: 're',
+                instrumental: 're',
+            },
+            neuter: {
+                nominative: zero,
+                accusative: zero,
+                genitive: 'es',
+                dative: 'um',
+                instrumental: 'e',
+            },
+        },
+        plural: {
+            masculine: {
+                nominative: 'e',
+                accusative: 'e',
+                genitive: 'ra',
+                dative: 'um',
+                instrumental: 'um',
+            },
+            feminine: {
+                nominative: 'a',
+                accusative: 'a',
+                genitive: 'ra',
+                dative: 'um',
+                instrumental: 'um',
+            },
+            neuter: {
+                nominative: shortU,
+                accusative: shortU,
+                genitive: 'ra',
+                dative: 'um',
+                instrumental: 'um',
+            },
+        },
+    }
+}
+
+const WEAK_ADJECTIVE_PLURAL = {
+    nominative: 'an',
+    accusative: 'an',
+    genitive: 'ra',
+    dative: 'um',
+    instrumental: 'um',
+}
+
+const WEAK_ADJECTIVE_ENDINGS: AdjectiveSetParam = {
+    singular: {
+        masculine: {
+            nominative: 'a',
+            accusative: 'an',
+            genitive: 'an',
+            dative: 'an',
+            instrumental: 'an',
+        },
+        feminine: {
+            nominative: 'e',
+            accusative: 'an',
+            genitive: 'an',
+            dative: 'an',
+            instrumental: 'an',
+        },
+        neuter: {
+            nominative: 'e',
+            accusative: 'e',
+            genitive: 'an',
+            dative: 'an',
+            instrumental: 'an',
+        },
+    },
+    plural: {
+        masculine: WEAK_ADJECTIVE_PLURAL,
+        feminine: WEAK_ADJECTIVE_PLURAL,
+        neuter: WEAK_ADJECTIVE_PLURAL,
+    },
+}
+
+function attachAdjective(
+    stem: string,
+    endings: AdjectiveSetParam
+): AdjectiveSetParam {
+    const forms = { singular: {}, plural: {} } as AdjectiveSetParam
+    for (const numberKey in endings) {
+        const number = numberKey as keyof AdjectiveSetParam
+        for (const genderKey in endings[number]) {
+            const gender = genderKey as GrammaticalGender
+            const caseForms = {} as Record<GrammaticalCase, string>
+            for (const caseKey in endings[number][gender]) {
+                const caseGram = caseKey as GrammaticalCase
+                caseForms[caseGram] = stem + endings[number][gender][caseGram]
+            }
+            forms[number][gender] = caseForms
+        }
+    }
+    return forms
+}
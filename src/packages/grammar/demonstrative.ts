@@ -0,0 +1,219 @@
+import WordSimple from './wordSimple'
+import { pronounce } from './pronunciation'
+import type {
+    CaseInfo,
+    CaseInfoParam,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+} from './types'
+
+/**
+ * Determiners inflect for gender only in the singular; the plural has one
+ * set of forms for all three genders.
+ */
+export class DeclinationOfDemonstrative<const T extends string> {
+    #base: WordSimple<T>
+    #singular: Record<GrammaticalGender, CaseInfo<T>>
+    #plural: CaseInfo<T>
+
+    constructor({
+        base,
+        singular,
+        plural,
+    }: {
+        /** Masculine nominative singular, e.g. `se`, `þes` */
+        base: T
+        singular: Record<GrammaticalGender, CaseInfoParam>
+        plural: CaseInfoParam
+    }) {
+        this.#base = new WordSimple(base)
+        this.#singular = {
+            masculine: ensureWordSimpleCase(singular.masculine),
+            feminine: ensureWordSimpleCase(singular.feminine),
+            neuter: ensureWordSimpleCase(singular.neuter),
+        }
+        this.#plural = ensureWordSimpleCase(plural)
+
+        function ensureWordSimpleCase(caseUnchecked: CaseInfoParam) {
+            const caseChecked = {} as CaseInfo<T>
+            for (const key in caseUnchecked) {
+                const caseGram = key as GrammaticalCase
+                caseChecked[caseGram] = new WordSimple(
+                    caseUnchecked[caseGram]
+                ) as WordSimple<T>
+            }
+            return caseChecked
+        }
+    }
+
+    get base() {
+        return this.#base
+    }
+    get singular() {
+        return this.#singular
+    }
+    get plural() {
+        return this.#plural
+    }
+    get declinationTable() {
+        return {
+            masculine: this.#singular.masculine,
+            feminine: this.#singular.feminine,
+            neuter: this.#singular.neuter,
+            plural: this.#plural,
+        }
+    }
+
+    /** Dual nouns take the plural determiner. */
+    formOf({
+        gender,
+        caseGram,
+        number,
+    }: {
+        gender: GrammaticalGender
+        caseGram: GrammaticalCase
+        number: GrammaticalNumber
+    }): WordSimple<T> | undefined {
+        return number === 'singular'
+            ? this.#singular[gender][caseGram]
+            : this.#plural[caseGram]
+    }
+}
+
+export class DemonstrativeDeclined<const T extends string> {
+    #declinations: DeclinationOfDemonstrative<T>
+    #gender: GrammaticalGender
+    #caseGram: GrammaticalCase
+    #number: GrammaticalNumber
+    #value: string
+
+    constructor({
+        declinations,
+        gender,
+        caseGram,
+        number,
+    }: {
+        declinations: DeclinationOfDemonstrative<T>
+        gender: GrammaticalGender
+        caseGram: GrammaticalCase
+        number: GrammaticalNumber
+    }) {
+        this.#declinations = declinations
+        this.#gender = gender
+        this.#caseGram = caseGram
+        this.#number = number
+        const potentialValue = declinations.formOf({
+            gender,
+            caseGram,
+            number,
+        })
+        if (typeof potentialValue === 'undefined') {
+            throw new Error(
+                `"${declinations.base.value}" has no ${gender} ${caseGram} ${number} form.`
+            )
+        } else {
+            this.#value = potentialValue.value
+        }
+    }
+
+    get declinations() {
+        return this.#declinations
+    }
+    get gender() {
+        return this.#gender
+    }
+    get caseGram() {
+        return this.#caseGram
+    }
+    get number() {
+        return this.#number
+    }
+    get value() {
+        return this.#value
+    }
+    get pronunciation() {
+        return pronounce(this.#value)
+    }
+}
+
+export function isDemonstrativeDeclined(
+    possibleDemonstrativeDeclined: unknown
+): possibleDemonstrativeDeclined is DemonstrativeDeclined<string> {
+    return possibleDemonstrativeDeclined instanceof DemonstrativeDeclined
+}
+
+/**
+ * The two demonstratives are a closed set, so unlike nouns they live here
+ * rather than in content.
+ */
+export const DEMONSTRATIVES = {
+    /** "the, that" */
+    se: new DeclinationOfDemonstrative({
+        base: 'se',
+        singular: {
+            masculine: {
+                nominative: 'se',
+                accusative: 'þone',
+                genitive: 'þæs',
+                dative: 'þǣm',
+                instrumental: 'þȳ',
+            },
+            feminine: {
+                nominative: 'sēo',
+                accusative: 'þā',
+                genitive: 'þǣre',
+                dative: 'þǣre',
+                instrumental: 'þǣre',
+            },
+            neuter: {
+                nominative: 'þæt',
+                accusative: 'þæt',
+                genitive: 'þæs',
+                dative: 'þǣm',
+                instrumental: 'þȳ',
+            },
+        },
+        plural: {
+            nominative: 'þā',
+            accusative: 'þā',
+            genitive: 'þāra',
+            dative: 'þǣm',
+            instrumental: 'þǣm',
+        },
+    }),
+    /** "this" */
+    þes: new DeclinationOfDemonstrative({
+        base: 'þes',
+        singular: {
+            masculine: {
+                nominative: 'þes',
+                accusative: 'þisne',
+                genitive: 'þisses',
+                dative: 'þissum',
+                instrumental: 'þȳs',
+            },
+            feminine: {
+                nominative: 'þēos',
+                accusative: 'þās',
+                genitive: 'þisse',
+                dative: 'þisse',
+                instrumental: 'þisse',
+            },
+            neuter: {
+                nominative: 'þis',
+                accusative: 'þis',
+                genitive: 'þisses',
+                dative: 'þissum',
+                instrumental: 'þȳs',
+            },
+        },
+        plural: {
+            nominative: 'þās',
+            accusative: 'þās',
+            genitive: 'þissa',
+            dative: 'þissum',
+            instrumental: 'þissum',
+        },
+    }),
+}
@@ -0,0 +1,383 @@
+import { findAgreementErrors } from './agreement'
+import { findGovernmentErrors } from './government'
+import {
+    describeForm,
+    MorphologicalAnalyzer,
+    paradigmOfForm,
+} from './morphology'
+import { isNounDeclined } from './noun'
+import { isPrepositionGoverning } from './preposition'
+import { isPronounDeclined } from './pronoun'
+import {
+    caseOf,
+    lemmaOf,
+    sentenceOf,
+    type Clause,
+    type Sentence,
+    type SentenceToken,
+} from './sentence'
+import type { GrammaticalRole } from './types'
+import { isVerbConjugated } from './verb'
+import {
+    checkWordOrder,
+    isSameToken,
+    piecesOf,
+    type Piece,
+    type WordOrderResult,
+} from './wordOrder'
+
+export type TokenVerdict =
+    | 'correct'
+    | 'wrongCase'
+    | 'wrongNumber'
+    /** Right word and case, wrong something else: person, tense, strength. */
+    | 'wrongForm'
+    | 'wrongLemma'
+    | 'misplaced'
+    | 'extra'
+    | 'missing'
+
+export interface TokenDiagnosis {
+    verdict: TokenVerdict
+    /** The learner's word. Missing words have none. */
+    token?: SentenceToken
+    /** The scenario's word this one was matched to. Extra words have none. */
+    expected?: SentenceToken
+    role?: GrammaticalRole
+    explanation?: string
+}
+
+export interface Diagnosis {
+    isCorrect: boolean
+    wordOrder: WordOrderResult
+    /** The learner's words in order, then one entry per missing word. */
+    tokens: TokenDiagnosis[]
+    /** Government and agreement errors, which span more than one word. */
+    messages: string[]
+}
+
+export const ROLE_LABELS: Record<GrammaticalRole, string> = {
+    subject: 'subject',
+    verb: 'verb',
+    directObject: 'direct object',
+    indirectObject: 'indirect object',
+    possessor: 'possessor',
+    prepositionalPhrase: 'prepositional phrase',
+    adverbial: 'adverbial',
+    conjunction: 'conjunction',
+}
+
+/** A word the scenario expects, with the piece of the clause it is in. */
+type Slot = { token: SentenceToken; piece: Piece; position: number }
+
+/**
+ * Lines the learner's words up with the scenario's and says what is wrong
+ * with each one. Words are matched in passes, first exact matches, then the
+ * same lemma in another form, then any word of the same kind, so that a
+ * wrong ending is reported as a wrong ending and not as a missing word plus
+ * an extra one.
+ */
+export function diagnose(given: Sentence, clause: Clause): Diagnosis {
+    const sentence = withInstrumentalsRead(given, clause)
+    const wordOrder = checkWordOrder(sentence, clause)
+    const messages = [
+        ...findGovernmentErrors(sentence),
+        ...findAgreementErrors(sentence),
+    ]
+
+    const slots: Slot[] = piecesOf(clause)
+        .flatMap((piece) => piece.words.map((token) => ({ token, piece })))
+        .map((slot, position) => ({ ...slot, position }))
+    const matches: Array<Slot | undefined> = sentence.map(() => undefined)
+    const used = new Set<Slot>()
+    const passes: Array<
+        (given: SentenceToken, expected: SentenceToken) => boolean
+    > = [
+        isSameToken,
+        (given, expected) => lemmaOf(given) === lemmaOf(expected),
+        (given, expected) => given.constructor === expected.constructor,
+    ]
+    for (const isMatch of passes) {
+        sentence.forEach((given, index) => {
+            if (matches[index]) {
+                return
+            }
+            const [nearest] = slots
+                .filter((slot) => !used.has(slot) && isMatch(given, slot.token))
+                .sort(
+                    (a, b) =>
+                        Math.abs(a.position - index) -
+                        Math.abs(b.position - index)
+                )
+            if (nearest) {
+                matches[index] = nearest
+                used.add(nearest)
+            }
+        })
+    }
+
+    const tokens: TokenDiagnosis[] = sentence.map((given, index) => {
+        const slot = matches[index]
+        if (!slot) {
+            return {
+                verdict: 'extra',
+                token: given,
+                explanation: `"${given.value}" is not needed in this sentence.`,
+            }
+        }
+        return {
+            ...judge(given, slot, clause),
+            token: given,
+            expected: slot.token,
+            role: slot.piece.role,
+        }
+    })
+
+    const missing = slots.filter((slot) => !used.has(slot))
+    if (!missing.length && isEverySlot(matches)) {
+        // Judge the order as if every word had the right form, so a wrong
+        // ending isn't also reported as a misplaced word.
+        const order = checkWordOrder(
+            matches.map((slot) => slot.token),
+            clause
+        )
+        if (!order.isCorrect) {
+            markMisplaced(tokens, matches, order)
+        }
+    }
+    for (const slot of missing) {
+        tokens.push({
+            verdict: 'missing',
+            expected: slot.token,
+            role: slot.piece.role,
+            explanation: `The ${ROLE_LABELS[slot.piece.role]} is missing a form of "${lemmaOf(slot.token)}".`,
+        })
+    }
+
+    return {
+        isCorrect: wordOrder.isCorrect && !messages.length,
+        wordOrder,
+        tokens,
+        messages,
+    }
+}
+
+function judge(
+    given: SentenceToken,
+    slot: Slot,
+    clause: Clause
+): Pick<TokenDiagnosis, 'verdict' | 'explanation'> {
+    const expected = slot.token
+    const role = ROLE_LABELS[slot.piece.role]
+    if (isSameToken(given, expected)) {
+        return { verdict: 'correct' }
+    }
+    if (lemmaOf(given) !== lemmaOf(expected)) {
+        return {
+            verdict: 'wrongLemma',
+            explanation: `The ${role} needs a form of "${lemmaOf(expected)}", not "${lemmaOf(given)}".`,
+        }
+    }
+
+    const expectedCase = caseOf(expected)
+    if (caseOf(given) !== expectedCase) {
+        const reason = reasonFor(slot.piece, clause)
+        return {
+            verdict: 'wrongCase',
+            explanation:
+                (reason
+                    ? `${reason}, so "${given.value}" must be ${expectedCase}.`
+                    : `"${given.value}" must be ${expectedCase} as part of the ${role}.`) +
+                syncretismNote(given, expected),
+        }
+    }
+    if (isVerbConjugated(given) && isVerbConjugated(expected)) {
+        const { person, number, tense, mood } = expected
+        return {
+            verdict: given.number === number ? 'wrongForm' : 'wrongNumber',
+            explanation: `"${given.value}" must be ${tense} ${mood}, ${person} person ${number}.`,
+        }
+    }
+    if (
+        'number' in given &&
+        'number' in expected &&
+        given.number !== expected.number
+    ) {
+        return {
+            verdict: 'wrongNumber',
+            explanation:
+                `"${given.value}" must be ${expected.number} as part of the ${role}.` +
+                syncretismNote(given, expected),
+        }
+    }
+    return {
+        verdict: 'wrongForm',
+        explanation: `"${given.value}" is the wrong form for the ${role}.`,
+    }
+}
+
+/**
+ * A noun's instrumental is its dative (see `declineNoun`), so the case grid
+ * offers the same word twice. Whichever of the two the learner picked is
+ * read as the one the model answer has: unlike cyning as nominative or
+ * accusative, there is no second form to tell apart.
+ */
+function withInstrumentalsRead(sentence: Sentence, clause: Clause): Sentence {
+    const isDativeOrInstrumental = (word: SentenceToken) =>
+        caseOf(word) === 'dative' || caseOf(word) === 'instrumental'
+    const expected = sentenceOf(clause).filter(
+        (word) => isNounDeclined(word) && isDativeOrInstrumental(word)
+    )
+    return sentence.map((word) => {
+        if (!isNounDeclined(word) || !isDativeOrInstrumental(word)) {
+            return word
+        }
+        return (
+            expected.find(
+                (other) =>
+                    isNounDeclined(other) &&
+                    other.declinations === word.declinations &&
+                    other.number === word.number &&
+                    other.value === word.value
+            ) ?? word
+        )
+    })
+}
+
+/**
+ * Points out that the learner's spelling stands for more than one case and
+ * number of a noun or pronoun, and whether the one needed is among them:
+ * the cyning picked as accusative where the nominative was wanted is
+ * spelled right all the same. Empty if the spelling has one reading.
+ */
+function syncretismNote(given: SentenceToken, expected: SentenceToken) {
+    const paradigm = paradigmOfForm(given)
+    if (!paradigm || !(isNounDeclined(given) || isPronounDeclined(given))) {
+        return ''
+    }
+    const readings = new MorphologicalAnalyzer([paradigm])
+        .analyze(given.value)
+        .filter(({ isExact }) => isExact)
+    if (readings.length < 2) {
+        return ''
+    }
+    const described = readings.map(({ description }) => description)
+    const list = `${described.slice(0, -1).join(', ')} or ${described[described.length - 1]}`
+    return readings.some(({ token }) => isSameToken(token, expected))
+        ? ` The spelling is right, as "${given.value}" can be ${list}: pick the ${describeForm(expected)}.`
+        : ` "${given.value}" can be ${list}, but none of those fits here.`
+}
+
+function isEverySlot(matches: Array<Slot | undefined>): matches is Slot[] {
+    return matches.every((slot) => slot !== undefined)
+}
+
+/**
+ * Only called when every word is accounted for, so the order is the one
+ * problem left to point at. A phrase whose words are split up or shuffled
+ * is out of place as a whole; if every phrase is intact, the possessor or
+ * the verb is in the wrong slot of the clause.
+ */
+function markMisplaced(
+    tokens: TokenDiagnosis[],
+    matches: Slot[],
+    order: WordOrderResult
+) {
+    const misplaced = new Set<Piece>()
+    const pieces = [...new Set(matches.map((slot) => slot.piece))]
+    const indicesOf = (piece: Piece) =>
+        matches.flatMap((slot, index) => (slot.piece === piece ? [index] : []))
+
+    for (const piece of pieces) {
+        const indices = indicesOf(piece)
+        const isIntact = indices.every(
+            (index, i) =>
+                index === indices[0] + i &&
+                matches[index].token === piece.words[i]
+        )
+        if (!isIntact) {
+            misplaced.add(piece)
+        }
+    }
+    if (!misplaced.size) {
+        for (const piece of pieces) {
+            if (piece.role !== 'possessor') {
+                continue
+            }
+            const head = pieces.find(
+                (other) => other.owner === piece.owner && other !== piece
+            )
+            const [first] = indicesOf(piece)
+            const headIndices = head ? indicesOf(head) : []
+            if (
+                first + piece.words.length !== headIndices[0] &&
+                headIndices[headIndices.length - 1] + 1 !== first
+            ) {
+                misplaced.add(piece)
+            }
+        }
+    }
+    if (!misplaced.size) {
+        const verb = pieces.find((piece) => piece.role === 'verb')
+        if (verb) {
+            misplaced.add(verb)
+        }
+    }
+
+    tokens.forEach((diagnosis, index) => {
+        const piece = matches[index].piece
+        if (diagnosis.verdict === 'correct' && misplaced.has(piece)) {
+            diagnosis.verdict = 'misplaced'
+            diagnosis.explanation =
+                order.message ??
+                `"${diagnosis.token?.value}" is out of place in the ${ROLE_LABELS[piece.role]}.`
+        }
+    })
+}
+
+/**
+ * Why a phrase takes the case it does: the scenario's own `reason` if it
+ * gives one, otherwise a generic one for the role.
+ */
+function reasonFor(piece: Piece, clause: Clause): string | undefined {
+    const constituent = clause.constituents[piece.owner]
+    if (piece.role !== 'possessor' && constituent.reason) {
+        return constituent.reason
+    }
+    const head = headOf(piece.words)
+    const verb = clause.constituents.find((other) => other.role === 'verb')
+        ?.words[0]
+
+    switch (piece.role) {
+        case 'subject':
+            return `"${head}" is doing the action`
+        case 'directObject':
+            return verb
+                ? `"${head}" receives the action of "${lemmaOf(verb)}"`
+                : `"${head}" receives the action`
+        case 'indirectObject':
+            return `"${head}" is who it is given or said to`
+        case 'possessor':
+            return `"${head}" owns "${headOf(constituent.words)}"`
+        case 'prepositionalPhrase': {
+            const preposition = piece.words.find(isPrepositionGoverning)
+            if (!preposition) {
+                return undefined
+            }
+            const sense = preposition.preposition.senses[preposition.caseGram]
+            return `"${preposition.value}" takes the ${preposition.caseGram}${sense ? ` for ${sense}` : ''}`
+        }
+        case 'adverbial':
+            return `"${head}" says when or how without a preposition`
+        default:
+            return undefined
+    }
+}
+
+/** The lemma of the noun or pronoun a phrase is built around. */
+function headOf(words: Sentence) {
+    const head = [...words]
+        .reverse()
+        .find((word) => isNounDeclined(word) || isPronounDeclined(word))
+    return head ? lemmaOf(head) : words.map((word) => word.value).join(' ')
+}
@@ -0,0 +1,51 @@
+import { isAdjectiveDeclined } from './adjective'
+import { isDemonstrativeDeclined } from './demonstrative'
+import { isNounDeclined } from './noun'
+import { isPrepositionGoverning } from './preposition'
+import { isPronounDeclined } from './pronoun'
+import type { Sentence } from './sentence'
+
+/**
+ * Checks that the noun phrase after each preposition is in a case the
+ * preposition governs, and, for those that take more than one, the case
+ * that gives the meaning the scenario asks for.
+ *
+ * @returns One learner-facing message per violation, e.g. `"fram" requires
+ * the dative, but "cyning" is nominative.`
+ */
+export function findGovernmentErrors(sentence: Sentence): string[] {
+    const errors: string[] = []
+    sentence.forEach((word, index) => {
+        if (!isPrepositionGoverning(word)) {
+            return
+        }
+        const { preposition, caseGram } = word
+
+        let next = index + 1
+        while (
+            isDemonstrativeDeclined(sentence[next]) ||
+            isAdjectiveDeclined(sentence[next])
+        ) {
+            next++
+        }
+        const head = sentence[next]
+        if (!isNounDeclined(head) && !isPronounDeclined(head)) {
+            errors.push(
+                `"${word.value}" must be followed by the noun phrase it governs.`
+            )
+            return
+        }
+
+        if (!preposition.governs.includes(head.caseGram)) {
+            errors.push(
+                `"${word.value}" requires the ${preposition.governs.join(' or ')}, but "${head.value}" is ${head.caseGram}.`
+            )
+        } else if (head.caseGram !== caseGram) {
+            const sense = preposition.senses[caseGram]
+            errors.push(
+                `"${word.value}" requires the ${caseGram} ${sense ? `for ${sense}` : 'here'}, but "${head.value}" is ${head.caseGram}.`
+            )
+        }
+    })
+    return errors
+}
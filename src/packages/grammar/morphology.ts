@@ -0,0 +1,286 @@
+import {
+    AdjectiveDeclined,
+    DeclinationOfAdjective,
+    isAdjectiveDeclined,
+} from './adjective'
+import {
+    DEMONSTRATIVES,
+    DeclinationOfDemonstrative,
+    DemonstrativeDeclined,
+    isDemonstrativeDeclined,
+} from './demonstrative'
+import { DeclinationOfNoun, isNounDeclined, NounDeclined } from './noun'
+import { normalizeSpelling, spellingKey } from './orthography'
+import {
+    isPrepositionGoverning,
+    Preposition,
+    PrepositionGoverning,
+    PREPOSITIONS,
+} from './preposition'
+import {
+    DeclinationOfPronoun,
+    isPronounDeclined,
+    PRONOUNS,
+    PronounDeclined,
+} from './pronoun'
+import { lemmaOf, type SentenceToken } from './sentence'
+import type {
+    Degree,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    GrammaticalPerson,
+    Mood,
+    Strength,
+    Tense,
+} from './types'
+import { ConjugationOfVerb, isVerbConjugated, VerbConjugated } from './verb'
+
+/** Anything a form can be looked up in. */
+export type Paradigm =
+    | DeclinationOfNoun<string>
+    | DeclinationOfPronoun<string>
+    | DeclinationOfDemonstrative<string>
+    | DeclinationOfAdjective<string>
+    | ConjugationOfVerb<string>
+    | Preposition<string>
+
+/** The paradigms every lesson pack shares. */
+export const CLOSED_CLASSES: Paradigm[] = [
+    ...Object.values(PRONOUNS),
+    ...Object.values(DEMONSTRATIVES),
+    ...Object.values(PREPOSITIONS),
+]
+
+const CASES: GrammaticalCase[] = [
+    'nominative',
+    'accusative',
+    'genitive',
+    'dative',
+    'instrumental',
+]
+const NUMBERS: GrammaticalNumber[] = ['singular', 'dual', 'plural']
+const GENDERS: GrammaticalGender[] = ['masculine', 'feminine', 'neuter']
+const STRENGTHS: Strength[] = ['strong', 'weak']
+const DEGREES: Degree[] = ['positive', 'comparative', 'superlative']
+const PERSONS: GrammaticalPerson[] = ['first', 'second', 'third']
+const TENSES: Tense[] = ['present', 'past']
+const MOODS: Mood[] = ['indicative', 'subjunctive', 'imperative']
+
+/**
+ * Every form of a paradigm, as tokens. Verbs, adjectives and determiners
+ * answer a dual with their plural form; those borrowed forms are included,
+ * so a dual subject can be matched, and `MorphologicalAnalyzer` leaves them
+ * out.
+ */
+export function formsOfParadigm(paradigm: Paradigm): SentenceToken[] {
+    if (
+        paradigm instanceof DeclinationOfNoun ||
+        paradigm instanceof DeclinationOfPronoun
+    ) {
+        return CASES.flatMap((caseGram) =>
+            NUMBERS.filter(
+                (number) => paradigm.declinationTable[caseGram]?.[number]
+            ).map((number) =>
+                paradigm instanceof DeclinationOfNoun
+                    ? new NounDeclined({
+                          declinations: paradigm,
+                          caseGram,
+                          number,
+                      })
+                    : new PronounDeclined({
+                          declinations: paradigm,
+                          caseGram,
+                          number,
+                      })
+            )
+        )
+    }
+    if (paradigm instanceof ConjugationOfVerb) {
+        return TENSES.flatMap((tense) =>
+            MOODS.flatMap((mood) =>
+                PERSONS.flatMap((person) =>
+                    NUMBERS.filter((number) =>
+                        paradigm.formOf({ person, number, tense, mood })
+                    ).map(
+                        (number) =>
+                            new VerbConjugated({
+                                conjugations: paradigm,
+                                person,
+                                number,
+                                tense,
+                                mood,
+                            })
+                    )
+                )
+            )
+        )
+    }
+    if (paradigm instanceof DeclinationOfAdjective) {
+        return DEGREES.flatMap((degree) =>
+            STRENGTHS.flatMap((strength) =>
+                GENDERS.flatMap((gender) =>
+                    CASES.flatMap((caseGram) =>
+                        NUMBERS.filter((number) =>
+                            paradigm.formOf({
+                                degree,
+                                strength,
+                                gender,
+                                caseGram,
+                                number,
+                            })
+                        ).map(
+                            (number) =>
+                                new AdjectiveDeclined({
+                                    declinations: paradigm,
+                                    degree,
+                                    strength,
+                                    gender,
+                                    caseGram,
+                                    number,
+                                })
+                        )
+                    )
+                )
+            )
+        )
+    }
+    if (paradigm instanceof DeclinationOfDemonstrative) {
+        return GENDERS.flatMap((gender) =>
+            CASES.flatMap((caseGram) =>
+                NUMBERS.filter((number) =>
+                    paradigm.formOf({ gender, caseGram, number })
+                ).map(
+                    (number) =>
+                        new DemonstrativeDeclined({
+                            declinations: paradigm,
+                            gender,
+                            caseGram,
+                            number,
+                        })
+                )
+            )
+        )
+    }
+    return paradigm.governs.map(
+        (caseGram) =>
+            new PrepositionGoverning({ preposition: paradigm, caseGram })
+    )
+}
+
+/** The table `word` was picked from, if it inflects or governs a case. */
+export function paradigmOfForm(word: SentenceToken): Paradigm | undefined {
+    if (
+        isNounDeclined(word) ||
+        isPronounDeclined(word) ||
+        isDemonstrativeDeclined(word) ||
+        isAdjectiveDeclined(word)
+    ) {
+        return word.declinations
+    } else if (isVerbConjugated(word)) {
+        return word.conjugations
+    } else if (isPrepositionGoverning(word)) {
+        return word.preposition
+    }
+    return undefined
+}
+
+/**
+ * Every form in the table `word` comes from: what the choice buttons offer
+ * for it, plus the forms they fold together. A word that doesn't inflect
+ * is its only form.
+ */
+export function formsOf(word: SentenceToken): SentenceToken[] {
+    const paradigm = paradigmOfForm(word)
+    return paradigm ? formsOfParadigm(paradigm) : [word]
+}
+
+/** What a form is, without the lemma, e.g. `dative singular`. */
+export function describeForm(token: SentenceToken): string {
+    if (isNounDeclined(token) || isPronounDeclined(token)) {
+        return `${token.caseGram} ${token.number}`
+    }
+    if (isDemonstrativeDeclined(token)) {
+        return token.number === 'singular'
+            ? `${token.gender} ${token.caseGram} singular`
+            : `${token.caseGram} ${token.number}`
+    }
+    if (isAdjectiveDeclined(token)) {
+        const degree = token.degree === 'positive' ? '' : `${token.degree} `
+        return `${degree}${token.strength} ${token.gender} ${token.caseGram} ${token.number}`
+    }
+    if (isVerbConjugated(token)) {
+        return token.mood === 'imperative'
+            ? `imperative ${token.number}`
+            : `${token.person} person ${token.number} ${token.tense} ${token.mood}`
+    }
+    if (isPrepositionGoverning(token)) {
+        return `preposition taking the ${token.caseGram}`
+    }
+    return 'uninflected'
+}
+
+export interface Analysis {
+    /** The form with its grammar, as if picked in an exercise. */
+    token: SentenceToken
+    lemma: string
+    /** e.g. `accusative plural` */
+    description: string
+    /** False when the form only matched up to þ/ð, wynn or macrons. */
+    isExact: boolean
+}
+
+/**
+ * Goes from a surface form back to its grammar: the reverse of the
+ * paradigms it is built from. A form several cells share (cyningas is
+ * nominative and accusative plural) has an analysis for each, and
+ * spellings are matched by `spellingKey`, so `þone`, `thone` and `ðone` are
+ * all found.
+ */
+export class MorphologicalAnalyzer {
+    #forms: Map<string, SentenceToken[]>
+
+    constructor(paradigms: Paradigm[]) {
+        this.#forms = new Map()
+        for (const paradigm of paradigms) {
+            // The plural determiners are listed under every gender.
+            const described = new Set<string>()
+            for (const form of formsOfParadigm(paradigm)) {
+                const description = `${form.value} ${describeForm(form)}`
+                if (isBorrowedDual(form) || described.has(description)) {
+                    continue
+                }
+                described.add(description)
+                const key = spellingKey(form.value)
+                this.#forms.set(key, [...(this.#forms.get(key) ?? []), form])
+            }
+        }
+    }
+
+    /** Every analysis of `form`, exact spellings first; none if unknown. */
+    analyze(form: string): Analysis[] {
+        const spelling = normalizeSpelling(form)
+        const analyses = (this.#forms.get(spellingKey(form)) ?? []).map(
+            (token) => ({
+                token,
+                lemma: lemmaOf(token),
+                description: describeForm(token),
+                isExact: normalizeSpelling(token.value) === spelling,
+            })
+        )
+        return [
+            ...analyses.filter(({ isExact }) => isExact),
+            ...analyses.filter(({ isExact }) => !isExact),
+        ]
+    }
+}
+
+/** A dual that is the plural form answering for it, not a form of its own. */
+function isBorrowedDual(form: SentenceToken) {
+    return (
+        (isVerbConjugated(form) ||
+            isAdjectiveDeclined(form) ||
+            isDemonstrativeDeclined(form)) &&
+        form.number === 'dual'
+    )
+}
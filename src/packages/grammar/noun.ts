@@ -0,0 +1,205 @@
+import WordSimple from './wordSimple'
+import { pronounce } from './pronunciation'
+import type {
+    DeclensionClass,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    GrammaticalNumberInfo,
+    GrammaticalNumberInfoParam,
+    Strength,
+} from './types'
+
+export class DeclinationOfNoun<const T extends string> {
+    #base: WordSimple<T>
+    #strength: Strength
+    #gender: GrammaticalGender
+    #declensionClass?: DeclensionClass
+    #nominative: GrammaticalNumberInfo<T>
+    #genitive: GrammaticalNumberInfo<T>
+    #dative: GrammaticalNumberInfo<T>
+    #accusative: GrammaticalNumberInfo<T>
+    #instrumental?: GrammaticalNumberInfo<T>
+    constructor({
+        base,
+        gender,
+        strength,
+        declensionClass,
+        nominative,
+        genitive,
+        dative,
+        accusative,
+        instrumental,
+    }: {
+        base: T
+        strength: Strength
+        gender: GrammaticalGender
+        /** Only known when the paradigm came from `declineNoun`. */
+        declensionClass?: DeclensionClass
+        nominative: GrammaticalNumberInfoParam
+        genitive: GrammaticalNumberInfoParam
+        dative: GrammaticalNumberInfoParam
+        accusative: GrammaticalNumberInfoParam
+        instrumental?: GrammaticalNumberInfoParam
+    }) {
+        this.#base = new WordSimple(base)
+        this.#strength = strength
+        this.#gender = gender
+        this.#declensionClass = declensionClass
+        this.#nominative = ensureWordSimpleNumber(nominative)
+        this.#genitive = ensureWordSimpleNumber(genitive)
+        this.#dative = ensureWordSimpleNumber(dative)
+        this.#accusative = ensureWordSimpleNumber(accusative)
+        this.#instrumental = instrumental
+            ? ensureWordSimpleNumber(instrumental)
+            : undefined
+
+        function ensureWordSimpleNumber(
+            numberUnchecked: GrammaticalNumberInfoParam
+        ) {
+            const numberChecked = {} as GrammaticalNumberInfo<T>
+            for (const key in numberUnchecked) {
+                const member =
+                    numberUnchecked[key as keyof GrammaticalNumberInfoParam]
+
+                if (member) {
+                    numberChecked[key as keyof GrammaticalNumberInfo<T>] =
+                        new WordSimple(member) as WordSimple<T>
+                }
+            }
+            return numberChecked
+        }
+    }
+
+    get base() {
+        return this.#base
+    }
+    get strength() {
+        return this.#strength
+    }
+    get gender() {
+        return this.#gender
+    }
+    get declensionClass() {
+        return this.#declensionClass
+    }
+    get nominative() {
+        return this.#nominative
+    }
+    get genitive() {
+        return this.#genitive
+    }
+    get dative() {
+        return this.#dative
+    }
+    get accusative() {
+        return this.#accusative
+    }
+    get instrumental() {
+        return this.#instrumental
+    }
+    get declinationTable() {
+        return {
+            nominative: this.#nominative,
+            genitive: this.#genitive,
+            dative: this.#dative,
+            accusative: this.#accusative,
+            instrumental: this.#instrumental,
+        }
+    }
+}
+
+export class NounDeclined<const T extends string> {
+    #declinations: DeclinationOfNoun<T>
+    #caseGram: GrammaticalCase
+    #number: GrammaticalNumber
+    #value: string
+
+    constructor({
+        declinations,
+        caseGram,
+        number,
+    }: {
+        declinations: DeclinationOfNoun<T>
+        caseGram: GrammaticalCase
+        number: GrammaticalNumber
+    }) {
+        this.#declinations = declinations
+        this.#caseGram = caseGram
+        this.#number = number
+        const potentialValue = declinations[caseGram]?.[number]
+        if (typeof potentialValue === 'undefined') {
+            throw new Error(
+                `Case: ${caseGram}, number: ${number} is not defined for "${declinations.base.value}".`
+            )
+        } else {
+            this.#value = potentialValue.value
+        }
+    }
+
+    get declinations() {
+        return this.#declinations
+    }
+    get caseGram() {
+        return this.#caseGram
+    }
+    get number() {
+        return this.#number
+    }
+    get value() {
+        return this.#value
+    }
+    get pronunciation() {
+        return pronounce(this.#value)
+    }
+}
+
+export function isNounDeclined(
+    possibleNounDeclined: unknown
+): possibleNounDeclined is NounDeclined<string> {
+    return possibleNounDeclined instanceof NounDeclined
+}
+
+/**
+ * Creates an array of DeclinationOfNoun instances while preserving their exact types
+ *
+ * Type parameters and constraints:
+ * @template {string[]} T - Inferred as tuple of string literals (e.g. ['cyning', 'biscop'])
+ *                       - The 'const' modifier preserves literal types instead of widening
+ *                       - T is inferred from the base strings of passed DeclinationOfNoun instances
+ *
+ * Parameter type: { [K in keyof T]: DeclinationOfNoun<T[K]> }
+ * - Creates a mapped type transforming string tuple T
+ * - Maps each position K in T to a DeclinationOfNoun of that string
+ * - e.g. if T is ['cyning', 'biscop'], creates:
+ *   [DeclinationOfNoun<'cyning'>, DeclinationOfNoun<'biscop'>]
+ *
+ * Type inference flow:
+ * 1. Pass: [new DeclinationOfNoun({base: 'cyning'}), new DeclinationOfNoun({base: 'biscop'})]
+ * 2. TypeScript sees DeclinationOfNoun instances with specific string literals
+ * 3. Infers backwards that T must be ['cyning', 'biscop']
+ * 4. Preserves exact types without explicit string array creation
+ *
+ * @param {{ [K in keyof T]: DeclinationOfNoun<T[K]> }} declinations - Array of DeclinationOfNoun instances
+ * @returns {{ [K in keyof T]: DeclinationOfNoun<T[K]> }} The same array with preserved literal types
+ */
+export function createDeclinations<const T extends string[]>(declinations: {
+    [K in keyof T]: DeclinationOfNoun<T[K]>
+}) {
+    return declinations
+}
+
+export class DeclinationDictionary<T extends string> {
+    // A Map, so a lemma like "constructor" is not found on the prototype.
+    #declinations = new Map<string, DeclinationOfNoun<T>>()
+
+    constructor(declinationArr: DeclinationOfNoun<T>[]) {
+        for (const d of declinationArr) {
+            this.#declinations.set(d.base.value, d)
+        }
+    }
+
+    get(key: string): DeclinationOfNoun<T> | undefined {
+        return this.#declinations.get(key)
+    }
+}
@@ -0,0 +1,40 @@
+/**
+ * Spelling helpers for answers typed on an ordinary keyboard. Learners can
+ * write "th" or "dh" for þ, "ae" for æ and leave out macrons. Within a
+ * simple word none of those sequences occur in normalized Old English
+ * spelling, but "dh" and "th" do where a compound's second element starts
+ * with h, as in cildhād, godhād and wordhord; those are left alone.
+ */
+
+const FALLBACKS: Array<[RegExp, string]> = [
+    // Not before -hād or -hord, typed with or without the macron.
+    [/[td]h(?![āa]d|ord)/g, 'þ'],
+    [/ae/g, 'æ'],
+]
+
+/** Lowercase, with the ASCII fallbacks replaced by the letters they stand for. */
+export function normalizeSpelling(text: string): string {
+    return FALLBACKS.reduce(
+        (normalized, [pattern, letter]) => normalized.replace(pattern, letter),
+        text.normalize('NFC').toLowerCase()
+    )
+}
+
+/**
+ * What two spellings have to share to count as the same word: þ and ð are
+ * interchangeable, as they were to scribes, wynn is w, and macrons are
+ * optional.
+ */
+export function spellingKey(word: string): string {
+    return normalizeSpelling(word)
+        .replace(/ð/g, 'þ')
+        .replace(/ƿ/g, 'w')
+        .normalize('NFD')
+        .replace(/\u0304/g, '')
+        .normalize('NFC')
+}
+
+/** The words of a typed sentence, without punctuation. */
+export function tokenize(text: string): string[] {
+    return text.split(/[\s.,;:!?"“”'‘’()·]+/).filter((word) => word.length)
+}
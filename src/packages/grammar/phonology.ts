@@ -0,0 +1,85 @@
+import type { StemLength } from './types'
+
+const SHORT_VOWELS = 'aeiouyæ'
+const LONG_VOWELS = 'āēīōūȳǣ'
+const DIPHTHONGS = ['ea', 'eo', 'ie', 'io', 'ēa', 'ēo', 'īe', 'īo']
+
+/**
+ * Front mutation of a stressed vowel, as caused by an *i or *j in the
+ * following syllable in Proto-Old English (fōt → fēt, mann → menn).
+ */
+const I_MUTATION: Record<string, string> = {
+    a: 'e',
+    æ: 'e',
+    ā: 'ǣ',
+    o: 'e',
+    ō: 'ē',
+    u: 'y',
+    ū: 'ȳ',
+    ea: 'ie',
+    ēa: 'īe',
+    eo: 'ie',
+    ēo: 'īe',
+    io: 'ie',
+    īo: 'īe',
+}
+
+export function isVowel(char: string) {
+    return SHORT_VOWELS.includes(char) || LONG_VOWELS.includes(char)
+}
+
+export function isLongVowel(char: string) {
+    return LONG_VOWELS.includes(char)
+}
+
+/**
+ * Finds the last vowel or diphthong of `word`, which for the stems we deal
+ * with is the one that carries the stress and takes mutation.
+ *
+ * @returns `[start, end)` indices into `word`, or `undefined` if there is no
+ * vowel at all.
+ */
+export function lastNucleus(word: string): [number, number] | undefined {
+    for (let end = word.length; end > 0; end--) {
+        if (!isVowel(word[end - 1])) {
+            continue
+        }
+        const start =
+            end >= 2 && DIPHTHONGS.includes(word.slice(end - 2, end))
+                ? end - 2
+                : end - 1
+        return [start, end]
+    }
+    return undefined
+}
+
+export function iMutate(stem: string) {
+    const nucleus = lastNucleus(stem)
+    if (!nucleus) {
+        throw new Error(`Stem "${stem}" has no vowel to mutate.`)
+    }
+    const [start, end] = nucleus
+    const mutated = I_MUTATION[stem.slice(start, end)]
+    return mutated ? stem.slice(0, start) + mutated + stem.slice(end) : stem
+}
+
+/**
+ * A syllable is long ("heavy") if its vowel is long or it is closed by more
+ * than one consonant. Only the last syllable is looked at, so callers with
+ * polysyllabic stems like `hēafod` should say explicitly what they want.
+ */
+export function stemLengthOf(stem: string): StemLength {
+    const nucleus = lastNucleus(stem)
+    if (!nucleus) {
+        throw new Error(`Stem "${stem}" has no vowel.`)
+    }
+    const [start, end] = nucleus
+    if ([...stem.slice(start, end)].some(isLongVowel)) {
+        return 'long'
+    }
+    const codaWeight = [...stem.slice(end)].reduce(
+        (sum, char) => sum + (char === 'x' ? 2 : 1),
+        0
+    )
+    return codaWeight > 1 ? 'long' : 'short'
+}
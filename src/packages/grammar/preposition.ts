@@ -0,0 +1,135 @@
+import WordSimple from './wordSimple'
+import type { GrammaticalCase } from './types'
+
+/**
+ * A preposition does not inflect, but it decides the case of the noun
+ * phrase after it. Some (on, in, ofer, under) govern more than one case
+ * depending on what they mean, which `senses` spells out for feedback.
+ */
+export class Preposition<const T extends string> {
+    #value: WordSimple<T>
+    #governs: GrammaticalCase[]
+    #senses: Partial<Record<GrammaticalCase, string>>
+
+    constructor({
+        value,
+        governs,
+        senses = {},
+    }: {
+        value: T
+        governs: GrammaticalCase[]
+        senses?: Partial<Record<GrammaticalCase, string>>
+    }) {
+        if (!governs.length) {
+            throw new Error(`Preposition "${value}" must govern a case.`)
+        }
+        this.#value = new WordSimple(value)
+        this.#governs = governs
+        this.#senses = senses
+    }
+
+    get value() {
+        return this.#value
+    }
+    get governs() {
+        return this.#governs
+    }
+    get senses() {
+        return this.#senses
+    }
+}
+
+/**
+ * A preposition as used in one sentence, pinned to the case it takes there.
+ * For single-case prepositions that is simply the case they govern.
+ */
+export class PrepositionGoverning<const T extends string> {
+    #preposition: Preposition<T>
+    #caseGram: GrammaticalCase
+
+    constructor({
+        preposition,
+        caseGram = preposition.governs[0],
+    }: {
+        preposition: Preposition<T>
+        caseGram?: GrammaticalCase
+    }) {
+        if (!preposition.governs.includes(caseGram)) {
+            throw new Error(
+                `"${preposition.value.value}" does not govern the ${caseGram}.`
+            )
+        }
+        this.#preposition = preposition
+        this.#caseGram = caseGram
+    }
+
+    get preposition() {
+        return this.#preposition
+    }
+    get caseGram() {
+        return this.#caseGram
+    }
+    get value() {
+        return this.#preposition.value.value
+    }
+    get pronunciation() {
+        return this.#preposition.value.pronunciation
+    }
+}
+
+export function isPrepositionGoverning(
+    possiblePrepositionGoverning: unknown
+): possiblePrepositionGoverning is PrepositionGoverning<string> {
+    return possiblePrepositionGoverning instanceof PrepositionGoverning
+}
+
+const LOCATION_OR_MOTION = {
+    dative: 'location (in, on, at)',
+    accusative: 'motion (into, onto)',
+}
+
+export const PREPOSITIONS = {
+    æfter: new Preposition({ value: 'æfter', governs: ['dative'] }),
+    be: new Preposition({ value: 'be', governs: ['dative'] }),
+    fram: new Preposition({ value: 'fram', governs: ['dative'] }),
+    mid: new Preposition({ value: 'mid', governs: ['dative', 'instrumental'] }),
+    of: new Preposition({ value: 'of', governs: ['dative'] }),
+    tō: new Preposition({ value: 'tō', governs: ['dative'] }),
+    þurh: new Preposition({ value: 'þurh', governs: ['accusative'] }),
+    ymbe: new Preposition({ value: 'ymbe', governs: ['accusative'] }),
+    wiþ: new Preposition({
+        value: 'wiþ',
+        governs: ['accusative', 'dative', 'genitive'],
+        senses: {
+            accusative: 'against, towards',
+            dative: 'against, opposite',
+            genitive: 'towards',
+        },
+    }),
+    in: new Preposition({
+        value: 'in',
+        governs: ['dative', 'accusative'],
+        senses: LOCATION_OR_MOTION,
+    }),
+    on: new Preposition({
+        value: 'on',
+        governs: ['dative', 'accusative'],
+        senses: LOCATION_OR_MOTION,
+    }),
+    ofer: new Preposition({
+        value: 'ofer',
+        governs: ['dative', 'accusative'],
+        senses: {
+            dative: 'location (over, above)',
+            accusative: 'motion (over, across)',
+        },
+    }),
+    under: new Preposition({
+        value: 'under',
+        governs: ['dative', 'accusative'],
+        senses: {
+            dative: 'location (under)',
+            accusative: 'motion (to beneath)',
+        },
+    }),
+}
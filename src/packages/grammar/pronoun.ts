@@ -0,0 +1,209 @@
+import WordSimple from './wordSimple'
+import { pronounce } from './pronunciation'
+import type {
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    GrammaticalNumberInfo,
+    GrammaticalNumberInfoParam,
+    GrammaticalPerson,
+} from './types'
+
+type PronounCase = Exclude<GrammaticalCase, 'instrumental'>
+
+/**
+ * Personal pronouns decline like nouns but carry a person, and the first
+ * and second person keep a dual (wit "we two", git "you two") that nouns
+ * lost before the written record begins.
+ */
+export class DeclinationOfPronoun<const T extends string> {
+    #base: WordSimple<T>
+    #person: GrammaticalPerson
+    #gender?: GrammaticalGender
+    #nominative: GrammaticalNumberInfo<T>
+    #accusative: GrammaticalNumberInfo<T>
+    #genitive: GrammaticalNumberInfo<T>
+    #dative: GrammaticalNumberInfo<T>
+
+    constructor({
+        base,
+        person,
+        gender,
+        nominative,
+        accusative,
+        genitive,
+        dative,
+    }: {
+        base: T
+        person: GrammaticalPerson
+        /** Only the third person singular has gender. */
+        gender?: GrammaticalGender
+    } & Record<PronounCase, GrammaticalNumberInfoParam>) {
+        this.#base = new WordSimple(base)
+        this.#person = person
+        this.#gender = gender
+        this.#nominative = ensureWordSimpleNumber(nominative)
+        this.#accusative = ensureWordSimpleNumber(accusative)
+        this.#genitive = ensureWordSimpleNumber(genitive)
+        this.#dative = ensureWordSimpleNumber(dative)
+
+        function ensureWordSimpleNumber(
+            numberUnchecked: GrammaticalNumberInfoParam
+        ) {
+            const numberChecked = {} as GrammaticalNumberInfo<T>
+            for (const key in numberUnchecked) {
+                const member =
+                    numberUnchecked[key as keyof GrammaticalNumberInfoParam]
+
+                if (member) {
+                    numberChecked[key as keyof GrammaticalNumberInfo<T>] =
+                        new WordSimple(member) as WordSimple<T>
+                }
+            }
+            return numberChecked
+        }
+    }
+
+    get base() {
+        return this.#base
+    }
+    get person() {
+        return this.#person
+    }
+    get gender() {
+        return this.#gender
+    }
+    get nominative() {
+        return this.#nominative
+    }
+    get accusative() {
+        return this.#accusative
+    }
+    get genitive() {
+        return this.#genitive
+    }
+    get dative() {
+        return this.#dative
+    }
+    get declinationTable(): Partial<
+        Record<GrammaticalCase, GrammaticalNumberInfo<T>>
+    > {
+        return {
+            nominative: this.#nominative,
+            genitive: this.#genitive,
+            dative: this.#dative,
+            accusative: this.#accusative,
+        }
+    }
+}
+
+export class PronounDeclined<const T extends string> {
+    #declinations: DeclinationOfPronoun<T>
+    #caseGram: GrammaticalCase
+    #number: GrammaticalNumber
+    #value: string
+
+    constructor({
+        declinations,
+        caseGram,
+        number,
+    }: {
+        declinations: DeclinationOfPronoun<T>
+        caseGram: GrammaticalCase
+        number: GrammaticalNumber
+    }) {
+        this.#declinations = declinations
+        this.#caseGram = caseGram
+        this.#number = number
+        const potentialValue = declinations.declinationTable[caseGram]?.[number]
+        if (typeof potentialValue === 'undefined') {
+            throw new Error(
+                `"${declinations.base.value}" has no ${caseGram} ${number} form.`
+            )
+        } else {
+            this.#value = potentialValue.value
+        }
+    }
+
+    get declinations() {
+        return this.#declinations
+    }
+    get caseGram() {
+        return this.#caseGram
+    }
+    get number() {
+        return this.#number
+    }
+    get value() {
+        return this.#value
+    }
+    get pronunciation() {
+        return pronounce(this.#value)
+    }
+}
+
+export function isPronounDeclined(
+    possiblePronounDeclined: unknown
+): possiblePronounDeclined is PronounDeclined<string> {
+    return possiblePronounDeclined instanceof PronounDeclined
+}
+
+const THIRD_PERSON_PLURAL = {
+    nominative: 'hīe',
+    accusative: 'hīe',
+    genitive: 'hiera',
+    dative: 'him',
+}
+
+/**
+ * Like the demonstratives, the personal pronouns are a closed set. The third
+ * person is split by gender in the singular and shares one plural.
+ */
+export const PRONOUNS = {
+    ic: new DeclinationOfPronoun({
+        base: 'ic',
+        person: 'first',
+        nominative: { singular: 'ic', dual: 'wit', plural: 'wē' },
+        accusative: { singular: 'mē', dual: 'unc', plural: 'ūs' },
+        genitive: { singular: 'mīn', dual: 'uncer', plural: 'ūre' },
+        dative: { singular: 'mē', dual: 'unc', plural: 'ūs' },
+    }),
+    þū: new DeclinationOfPronoun({
+        base: 'þū',
+        person: 'second',
+        nominative: { singular: 'þū', dual: 'git', plural: 'gē' },
+        accusative: { singular: 'þē', dual: 'inc', plural: 'ēow' },
+        genitive: { singular: 'þīn', dual: 'incer', plural: 'ēower' },
+        dative: { singular: 'þē', dual: 'inc', plural: 'ēow' },
+    }),
+    hē: new DeclinationOfPronoun({
+        base: 'hē',
+        person: 'third',
+        gender: 'masculine',
+        nominative: { singular: 'hē', plural: THIRD_PERSON_PLURAL.nominative },
+        accusative: {
+            singular: 'hine',
+            plural: THIRD_PERSON_PLURAL.accusative,
+        },
+        genitive: { singular: 'his', plural: THIRD_PERSON_PLURAL.genitive },
+        dative: { singular: 'him', plural: THIRD_PERSON_PLURAL.dative },
+    }),
+    hēo: new DeclinationOfPronoun({
+        base: 'hēo',
+        person: 'third',
+        gender: 'feminine',
+        nominative: { singular: 'hēo', plural: THIRD_PERSON_PLURAL.nominative },
+        accusative: { singular: 'hīe', plural: THIRD_PERSON_PLURAL.accusative },
+        genitive: { singular: 'hiere', plural: THIRD_PERSON_PLURAL.genitive },
+        dative: { singular: 'hiere', plural: THIRD_PERSON_PLURAL.dative },
+    }),
+    hit: new DeclinationOfPronoun({
+        base: 'hit',
+        person: 'third',
+        gender: 'neuter',
+        nominative: { singular: 'hit', plural: THIRD_PERSON_PLURAL.nominative },
+        accusative: { singular: 'hit', plural: THIRD_PERSON_PLURAL.accusative },
+        genitive: { singular: 'his', plural: THIRD_PERSON_PLURAL.genitive },
+        dative: { singular: 'him', plural: THIRD_PERSON_PLURAL.dative },
+    }),
+}
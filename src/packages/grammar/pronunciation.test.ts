@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { respell } from '../speech/speech'
+import { pronounce } from './pronunciation'
+
+/** Word, reconstructed IPA, and the respelling a German voice is given. */
+const KNOWN_WORDS: Array<[string, string, string]> = [
+    // c and g: palatal before a front vowel, but not before y.
+    ['cyning', 'ˈkyniŋɡ', 'küning'],
+    ['cild', 'tʃild', 'tschild'],
+    ['cēosan', 'ˈtʃeːo̯zɑn', 'tscheosan'],
+    ['ic', 'itʃ', 'itsch'],
+    ['bōc', 'boːk', 'bohk'],
+    ['dæg', 'dæj', 'däj'],
+    ['dagas', 'ˈdɑɣɑs', 'dagas'],
+    ['þegn', 'θejn', 'tejn'],
+    ['geard', 'jæɑ̯rd', 'jäard'],
+    // Digraphs and long consonants.
+    ['biscop', 'ˈbiʃop', 'bischop'],
+    ['fisc', 'fiʃ', 'fisch'],
+    ['ecg', 'edʒ', 'edsch'],
+    ['mann', 'mɑnː', 'mann'],
+    // Fricatives are voiced only between voiced sounds.
+    ['ofer', 'ˈover', 'ower'],
+    ['hlāford', 'ˈhlɑːvord', 'hlaaword'],
+    ['wīf', 'wiːf', 'uihf'],
+    ['wīfes', 'ˈwiːves', 'uihwes'],
+    ['hūs', 'huːs', 'huhs'],
+    ['hūses', 'ˈhuːzes', 'huhses'],
+    ['grēteþ', 'ˈɡreːteθ', 'grehtet'],
+    ['brōþor', 'ˈbroːðor', 'brohdor'],
+    ['cweþan', 'ˈkweðɑn', 'kuedan'],
+    // h
+    ['niht', 'niçt', 'nicht'],
+    ['hwæt', 'hwæt', 'huät'],
+    // Diphthongs.
+    ['ēage', 'ˈæːɑ̯je', 'äaje'],
+    ['eorþe', 'ˈeo̯rðe', 'eorde'],
+    ['sceal', 'ʃæɑ̯l', 'schäal'],
+    // The stem after ge- begins afresh and takes the stress.
+    ['gefaran', 'jeˈfɑrɑn', 'jefaran'],
+    ['gecoren', 'jeˈkoren', 'jekoren'],
+    ['gehȳran', 'jeˈhyːrɑn', 'jehühran'],
+    ['gesēon', 'jeˈseːo̯n', 'jeseon'],
+    // One syllable: g and e are the word, not a prefix.
+    ['gelp', 'jelp', 'jelp'],
+]
+
+describe('pronounce', () => {
+    it.each(KNOWN_WORDS)('reads %s as %s', (word, ipa) => {
+        expect(pronounce(word)).toBe(ipa)
+    })
+
+    it('ignores case and decomposed macrons', () => {
+        expect(pronounce('Ēage'.normalize('NFD'))).toBe('ˈæːɑ̯je')
+    })
+})
+
+describe('respell', () => {
+    it.each(KNOWN_WORDS)('respells %s as %3$s', (word, _, respelling) => {
+        expect(respell(word)).toBe(respelling)
+    })
+
+    it('respells each word of a sentence', () => {
+        expect(respell('Se cyning  lufaþ þone biscop')).toBe(
+            'se küning luwat tone bischop'
+        )
+    })
+})
@@ -0,0 +1,215 @@
+import { isVowel } from './phonology'
+
+/**
+ * Rule-based reconstruction of how a (normalized, late West Saxon) spelling
+ * was pronounced, as taught in the usual grammars:
+ *
+ * - a macron makes a long vowel, and ea, eo, ie, io are diphthongs;
+ * - c and g are palatal (tʃ, j) before a front vowel at the start of a
+ *   word, and g after one too (dæg), c only after i (ic); y doesn't count,
+ *   as it is a mutated u: cyning has a k;
+ * - g between back vowels is the fricative ɣ, and ng is ŋɡ;
+ * - f, s and þ/ð are voiced between voiced sounds;
+ * - h is h at the start of a word and x or ç elsewhere;
+ * - sc is ʃ, cg is dʒ, and doubled consonants are long.
+ *
+ * Stress falls on the first syllable, or after the prefix ge-, and the
+ * stem after ge- is read as if it began the word.
+ *
+ * @example
+ * pronounce('cyning') // 'ˈkyniŋɡ'
+ * pronounce('grēteþ') // 'ˈɡreːteθ'
+ * pronounce('dæg') // 'dæj'
+ * pronounce('dagas') // 'ˈdɑɣɑs'
+ * pronounce('cild') // 'tʃild'
+ * pronounce('biscop') // 'ˈbiʃop'
+ * pronounce('ofer') // 'ˈover'
+ * pronounce('þegn') // 'θejn'
+ * pronounce('ecg') // 'edʒ'
+ * pronounce('mann') // 'mɑnː'
+ * pronounce('niht') // 'niçt'
+ * pronounce('ēage') // 'ˈæːɑ̯je'
+ * pronounce('gefaran') // 'jeˈfɑrɑn'
+ */
+export function pronounce(word: string): string {
+    const units = unitsOf(word.normalize('NFC').toLowerCase())
+    const nuclei = units.filter(({ isVowel }) => isVowel).length
+    const isPrefixed =
+        nuclei > 1 &&
+        units[0]?.letters === 'g' &&
+        units[1]?.letters === 'e' &&
+        !!units[2] &&
+        !units[2].isVowel
+    // After ge- the stem starts afresh: gefaran keeps its f, gecoren its k.
+    const stem = isPrefixed ? 2 : 0
+    const sounds = units.map((unit, index) =>
+        soundOf(
+            unit,
+            index === stem ? undefined : units[index - 1],
+            units[index + 1],
+            index === 0 || index === stem
+        )
+    )
+    // n assimilates to a following k or ɡ.
+    sounds.forEach((sound, index) => {
+        if (sound === 'n' && /^[kɡ]/.test(sounds[index + 1] ?? '')) {
+            sounds[index] = 'ŋ'
+        }
+    })
+
+    if (nuclei < 2) {
+        return sounds.join('')
+    }
+    return [...sounds.slice(0, stem), 'ˈ', ...sounds.slice(stem)].join('')
+}
+
+/** A vowel, a diphthong, a digraph or a doubled consonant. */
+interface Unit {
+    letters: string
+    isVowel: boolean
+}
+
+const DIPHTHONGS = ['ēa', 'ēo', 'īe', 'īo', 'ea', 'eo', 'ie', 'io']
+const DIGRAPHS = ['sc', 'cg']
+
+const VOWELS: Record<string, string> = {
+    a: 'ɑ',
+    æ: 'æ',
+    e: 'e',
+    i: 'i',
+    o: 'o',
+    u: 'u',
+    y: 'y',
+    ā: 'ɑː',
+    ǣ: 'æː',
+    ē: 'eː',
+    ī: 'iː',
+    ō: 'oː',
+    ū: 'uː',
+    ȳ: 'yː',
+    ea: 'æɑ̯',
+    ēa: 'æːɑ̯',
+    eo: 'eo̯',
+    ēo: 'eːo̯',
+    ie: 'iy̯',
+    īe: 'iːy̯',
+    io: 'iu̯',
+    īo: 'iːu̯',
+}
+
+const CONSONANTS: Record<string, string> = {
+    b: 'b',
+    d: 'd',
+    l: 'l',
+    m: 'm',
+    n: 'n',
+    p: 'p',
+    r: 'r',
+    t: 't',
+    w: 'w',
+    ƿ: 'w',
+    x: 'ks',
+    k: 'k',
+    sc: 'ʃ',
+    cg: 'dʒ',
+}
+
+/** The voiceless fricatives and their voiced counterparts. */
+const FRICATIVES: Record<string, [string, string]> = {
+    f: ['f', 'v'],
+    s: ['s', 'z'],
+    þ: ['θ', 'ð'],
+    ð: ['θ', 'ð'],
+}
+
+function unitsOf(word: string): Unit[] {
+    const units: Unit[] = []
+    let index = 0
+    while (index < word.length) {
+        const pair = word.slice(index, index + 2)
+        if (DIPHTHONGS.includes(pair)) {
+            units.push({ letters: pair, isVowel: true })
+            index += 2
+        } else if (DIGRAPHS.includes(pair)) {
+            units.push({ letters: pair, isVowel: false })
+            index += 2
+        } else if (!isVowel(word[index]) && pair === word[index].repeat(2)) {
+            units.push({ letters: pair, isVowel: false })
+            index += 2
+        } else {
+            units.push({ letters: word[index], isVowel: isVowel(word[index]) })
+            index += 1
+        }
+    }
+    return units
+}
+
+/** e, i, æ and the diphthongs, but not y: it comes from a mutated u. */
+function isFront(unit?: Unit) {
+    return !!unit?.isVowel && 'eēiīæǣ'.includes(unit.letters[0])
+}
+
+function isVoiced(unit?: Unit) {
+    return !!unit && (unit.isVowel || 'lrmnwƿbdg'.includes(unit.letters))
+}
+
+function isLiquid(unit?: Unit) {
+    return unit?.letters === 'l' || unit?.letters === 'r'
+}
+
+function soundOf(
+    unit: Unit,
+    previous: Unit | undefined,
+    next: Unit | undefined,
+    isInitial: boolean
+): string {
+    const { letters } = unit
+    if (unit.isVowel) {
+        return VOWELS[letters] ?? letters
+    }
+    if (letters.length === 2 && letters[0] === letters[1]) {
+        const single = soundOf(
+            { letters: letters[0], isVowel: false },
+            undefined,
+            undefined,
+            true
+        )
+        return `${single}ː`
+    }
+    if (letters in FRICATIVES) {
+        const [voiceless, voiced] = FRICATIVES[letters]
+        return isVoiced(previous) && isVoiced(next) ? voiced : voiceless
+    }
+    switch (letters) {
+        case 'c':
+            // ic, dīc: after i at the end of a syllable.
+            if (
+                isInitial
+                    ? isFront(next)
+                    : 'iī'.includes(previous?.letters ?? '-') && !next?.isVowel
+            ) {
+                return 'tʃ'
+            }
+            return 'k'
+        case 'g':
+            if (previous?.letters === 'n') {
+                return 'ɡ'
+            }
+            if (isInitial) {
+                return isFront(next) ? 'j' : 'ɡ'
+            }
+            if (
+                isFront(previous) ||
+                (isFront(next) && (previous?.isVowel || isLiquid(previous)))
+            ) {
+                return 'j'
+            }
+            return previous?.isVowel || isLiquid(previous) ? 'ɣ' : 'ɡ'
+        case 'h':
+            if (isInitial) {
+                return 'h'
+            }
+            return isFront(previous) ? 'ç' : 'x'
+    }
+    return CONSONANTS[letters] ?? letters
+}
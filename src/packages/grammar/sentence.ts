@@ -0,0 +1,98 @@
+import { isAdjectiveDeclined, type AdjectiveDeclined } from './adjective'
+import {
+    isDemonstrativeDeclined,
+    type DemonstrativeDeclined,
+} from './demonstrative'
+import { isNounDeclined, type NounDeclined } from './noun'
+import type { PrepositionGoverning } from './preposition'
+import { isPronounDeclined, type PronounDeclined } from './pronoun'
+import type { ClauseType, GrammaticalCase, GrammaticalRole } from './types'
+import { isVerbConjugated, type VerbConjugated } from './verb'
+import type WordSimple from './wordSimple'
+
+export type SentenceToken =
+    | WordSimple<string>
+    | NounDeclined<string>
+    | VerbConjugated<string>
+    | DemonstrativeDeclined<string>
+    | AdjectiveDeclined<string>
+    | PronounDeclined<string>
+    | PrepositionGoverning<string>
+
+export type Sentence = Array<SentenceToken>
+
+/** The words filling one role, e.g. the subject `se gōda cyning`. */
+export interface Constituent {
+    role: GrammaticalRole
+    words: Sentence
+    /** A genitive belonging to the phrase, e.g. `þæs biscopes` in `þæs biscopes þegn`. */
+    possessor?: Sentence
+    /**
+     * What the phrase does in this scenario, for feedback, e.g. `The bishop
+     * receives the greeting`. Falls back to a generic one for the role.
+     */
+    reason?: string
+}
+
+/**
+ * A clause as a set of roles rather than a fixed word order. The order the
+ * constituents are listed in is the one shown as the model answer.
+ */
+export interface Clause {
+    type: ClauseType
+    constituents: Constituent[]
+}
+
+/** The clause in its listed order, each possessor before its phrase. */
+export function sentenceOf(clause: Clause): Sentence {
+    return clause.constituents.flatMap((constituent) => [
+        ...(constituent.possessor ?? []),
+        ...constituent.words,
+    ])
+}
+
+/** The case a token was declined for, if it is a declinable word. */
+export function caseOf(token: SentenceToken): GrammaticalCase | undefined {
+    if (
+        isNounDeclined(token) ||
+        isPronounDeclined(token) ||
+        isDemonstrativeDeclined(token) ||
+        isAdjectiveDeclined(token)
+    ) {
+        return token.caseGram
+    }
+    return undefined
+}
+
+/**
+ * The inflection table a token was picked from, so each table is offered
+ * once even if the scenario uses it twice (se … þone).
+ */
+export function paradigmOf(word: SentenceToken) {
+    if (
+        isNounDeclined(word) ||
+        isPronounDeclined(word) ||
+        isDemonstrativeDeclined(word) ||
+        isAdjectiveDeclined(word)
+    ) {
+        return word.declinations
+    } else if (isVerbConjugated(word)) {
+        return word.conjugations
+    }
+    return word
+}
+
+/** The dictionary form of a token, e.g. `cyning` for `cyninge`. */
+export function lemmaOf(token: SentenceToken): string {
+    if (
+        isNounDeclined(token) ||
+        isPronounDeclined(token) ||
+        isDemonstrativeDeclined(token) ||
+        isAdjectiveDeclined(token)
+    ) {
+        return token.declinations.base.value
+    } else if (isVerbConjugated(token)) {
+        return token.conjugations.infinitive.value
+    }
+    return token.value
+}
@@ -0,0 +1,108 @@
+import type WordSimple from './wordSimple'
+
+/**
+ * Lol for fun we're gonna say a declension is the type like 1st declension,
+ * and declination is the actual specific way a specific noun like 'cyning'
+ * declines.
+ */
+
+/**
+ * `caseGram` as field name, parameter, etc. because `case` is a reserved
+ * word in TS.
+ *
+ * The instrumental only has its own forms in the masculine and neuter
+ * singular of determiners and strong adjectives (þȳ, gōde); everywhere else
+ * it looks like the dative.
+ */
+export type GrammaticalCase =
+    'nominative' | 'accusative' | 'genitive' | 'dative' | 'instrumental'
+export type GrammaticalNumber = 'singular' | 'dual' | 'plural'
+export type GrammaticalGender = 'feminine' | 'neuter' | 'masculine'
+export type Strength = 'strong' | 'weak'
+export type Degree = 'positive' | 'comparative' | 'superlative'
+
+/**
+ * The declension a noun belongs to, named after the Proto-Germanic stem
+ * vowel. `root` covers the consonant-stem nouns like fōt/fēt that mutate
+ * their vowel instead of (or as well as) taking an ending.
+ */
+export type DeclensionClass =
+    'a-stem' | 'ō-stem' | 'n-stem' | 'i-stem' | 'u-stem' | 'root'
+
+export type StemLength = 'short' | 'long'
+
+export type GrammaticalNumberInfo<T extends string> = {
+    singular: WordSimple<T>
+    dual?: WordSimple<T>
+    plural: WordSimple<T>
+}
+
+export type GrammaticalNumberInfoParam = {
+    singular: string
+    dual?: string
+    plural: string
+}
+
+export type GrammaticalPerson = 'first' | 'second' | 'third'
+export type Tense = 'present' | 'past'
+export type Mood = 'indicative' | 'subjunctive' | 'imperative'
+
+/**
+ * Weak verbs form their past with a dental suffix (-de, -ode), strong verbs
+ * change their root vowel (ablaut), and the anomalous ones do neither
+ * reliably.
+ */
+export type VerbClass =
+    | 'weak-1'
+    | 'weak-2'
+    | 'weak-3'
+    | 'strong-1'
+    | 'strong-2'
+    | 'strong-3'
+    | 'strong-4'
+    | 'strong-5'
+    | 'strong-6'
+    | 'strong-7'
+    | 'anomalous'
+
+/**
+ * Old English verbs only distinguish person in the singular of the
+ * indicative; every plural person shares one form.
+ */
+export type PersonNumberInfo<T extends string> = {
+    firstSingular: WordSimple<T>
+    secondSingular: WordSimple<T>
+    thirdSingular: WordSimple<T>
+    plural: WordSimple<T>
+}
+
+export type PersonNumberInfoParam = {
+    firstSingular: string
+    secondSingular: string
+    thirdSingular: string
+    plural: string
+}
+
+/** One form per case, for words that are looked up by gender first. */
+export type CaseInfo<T extends string> = Record<GrammaticalCase, WordSimple<T>>
+
+export type CaseInfoParam = Record<GrammaticalCase, string>
+
+/**
+ * What a phrase does in its clause. Case marks most of these, which is why
+ * Old English can move them around. `adverbial` covers bare-case adjuncts
+ * like the instrumental þȳ dæge, and `conjunction` the þæt or þā that opens a
+ * subordinate clause.
+ */
+export type GrammaticalRole =
+    | 'subject'
+    | 'verb'
+    | 'directObject'
+    | 'indirectObject'
+    | 'possessor'
+    | 'prepositionalPhrase'
+    | 'adverbial'
+    | 'conjunction'
+
+/** Main clauses put the verb second, subordinate clauses put it last. */
+export type ClauseType = 'main' | 'subordinate'
@@ -0,0 +1,243 @@
+import WordSimple from './wordSimple'
+import { pronounce } from './pronunciation'
+import type {
+    GrammaticalNumber,
+    GrammaticalNumberInfo,
+    GrammaticalNumberInfoParam,
+    GrammaticalPerson,
+    Mood,
+    PersonNumberInfo,
+    PersonNumberInfoParam,
+    Tense,
+    VerbClass,
+} from './types'
+
+type TenseInfo<T extends string> = {
+    indicative: PersonNumberInfo<T>
+    subjunctive: GrammaticalNumberInfo<T>
+}
+
+export type TenseInfoParam = {
+    indicative: PersonNumberInfoParam
+    subjunctive: GrammaticalNumberInfoParam
+}
+
+export type ConjugationOfVerbParam<T extends string> = {
+    infinitive: T
+    verbClass: VerbClass
+    present: TenseInfoParam
+    past: TenseInfoParam
+    /** Modal verbs like `willan` have no imperative. */
+    imperative?: GrammaticalNumberInfoParam
+    presentParticiple?: string
+    pastParticiple?: string
+}
+
+/**
+ * The verb counterpart of `DeclinationOfNoun`: every finite form of one verb,
+ * plus its participles.
+ */
+export class ConjugationOfVerb<const T extends string> {
+    #infinitive: WordSimple<T>
+    #verbClass: VerbClass
+    #present: TenseInfo<T>
+    #past: TenseInfo<T>
+    #imperative?: GrammaticalNumberInfo<T>
+    #presentParticiple?: WordSimple<T>
+    #pastParticiple?: WordSimple<T>
+
+    constructor({
+        infinitive,
+        verbClass,
+        present,
+        past,
+        imperative,
+        presentParticiple,
+        pastParticiple,
+    }: ConjugationOfVerbParam<T>) {
+        this.#infinitive = new WordSimple(infinitive)
+        this.#verbClass = verbClass
+        this.#present = ensureWordSimpleTense(present)
+        this.#past = ensureWordSimpleTense(past)
+        this.#imperative = imperative
+            ? ensureWordSimples<GrammaticalNumberInfo<T>>(imperative)
+            : undefined
+        this.#presentParticiple = presentParticiple
+            ? (new WordSimple(presentParticiple) as WordSimple<T>)
+            : undefined
+        this.#pastParticiple = pastParticiple
+            ? (new WordSimple(pastParticiple) as WordSimple<T>)
+            : undefined
+
+        function ensureWordSimpleTense(tenseUnchecked: TenseInfoParam) {
+            return {
+                indicative: ensureWordSimples<PersonNumberInfo<T>>(
+                    tenseUnchecked.indicative
+                ),
+                subjunctive: ensureWordSimples<GrammaticalNumberInfo<T>>(
+                    tenseUnchecked.subjunctive
+                ),
+            }
+        }
+
+        function ensureWordSimples<R>(unchecked: object) {
+            const checked = {} as Record<string, WordSimple<T>>
+            for (const [key, member] of Object.entries(unchecked)) {
+                if (member) {
+                    checked[key] = new WordSimple(member) as WordSimple<T>
+                }
+            }
+            return checked as R
+        }
+    }
+
+    get infinitive() {
+        return this.#infinitive
+    }
+    get verbClass() {
+        return this.#verbClass
+    }
+    get present() {
+        return this.#present
+    }
+    get past() {
+        return this.#past
+    }
+    get imperative() {
+        return this.#imperative
+    }
+    get presentParticiple() {
+        return this.#presentParticiple
+    }
+    get pastParticiple() {
+        return this.#pastParticiple
+    }
+    get conjugationTable() {
+        return {
+            present: this.#present,
+            past: this.#past,
+            imperative: this.#imperative,
+        }
+    }
+
+    /**
+     * Looks up the finite form for a subject. Dual subjects take the plural
+     * form, and the imperative only exists in the second person present.
+     */
+    formOf({
+        person,
+        number,
+        tense,
+        mood,
+    }: {
+        person: GrammaticalPerson
+        number: GrammaticalNumber
+        tense: Tense
+        mood: Mood
+    }): WordSimple<T> | undefined {
+        const isPlural = number !== 'singular'
+        if (mood === 'imperative') {
+            if (person !== 'second' || tense !== 'present') {
+                return undefined
+            }
+            return isPlural
+                ? this.#imperative?.plural
+                : this.#imperative?.singular
+        }
+
+        const tenseInfo = tense === 'present' ? this.#present : this.#past
+        if (mood === 'subjunctive') {
+            return isPlural
+                ? tenseInfo.subjunctive.plural
+                : tenseInfo.subjunctive.singular
+        }
+        return isPlural
+            ? tenseInfo.indicative.plural
+            : tenseInfo.indicative[`${person}Singular`]
+    }
+}
+
+/** The verb counterpart of `NounDeclined`. */
+export class VerbConjugated<const T extends string> {
+    #conjugations: ConjugationOfVerb<T>
+    #person: GrammaticalPerson
+    #number: GrammaticalNumber
+    #tense: Tense
+    #mood: Mood
+    #value: string
+
+    constructor({
+        conjugations,
+        person,
+        number,
+        tense,
+        mood,
+    }: {
+        conjugations: ConjugationOfVerb<T>
+        person: GrammaticalPerson
+        number: GrammaticalNumber
+        tense: Tense
+        mood: Mood
+    }) {
+        this.#conjugations = conjugations
+        this.#person = person
+        this.#number = number
+        this.#tense = tense
+        this.#mood = mood
+        const potentialValue = conjugations.formOf({
+            person,
+            number,
+            tense,
+            mood,
+        })
+        if (typeof potentialValue === 'undefined') {
+            throw new Error(
+                `"${conjugations.infinitive.value}" has no ${tense} ${mood} form for the ${person} person ${number}.`
+            )
+        } else {
+            this.#value = potentialValue.value
+        }
+    }
+
+    get conjugations() {
+        return this.#conjugations
+    }
+    get person() {
+        return this.#person
+    }
+    get number() {
+        return this.#number
+    }
+    get tense() {
+        return this.#tense
+    }
+    get mood() {
+        return this.#mood
+    }
+    get value() {
+        return this.#value
+    }
+    get pronunciation() {
+        return pronounce(this.#value)
+    }
+}
+
+export function isVerbConjugated(
+    possibleVerbConjugated: unknown
+): possibleVerbConjugated is VerbConjugated<string> {
+    return possibleVerbConjugated instanceof VerbConjugated
+}
+
+export class ConjugationDictionary<T extends string> {
+    #conjugations = new Map<string, ConjugationOfVerb<T>>()
+
+    constructor(conjugationArr: ConjugationOfVerb<T>[]) {
+        for (const c of conjugationArr) {
+            this.#conjugations.set(c.infinitive.value, c)
+        }
+    }
+
+    get(key: string): ConjugationOfVerb<T> | undefined {
+        return this.#conjugations.get(key)
+    }
+}
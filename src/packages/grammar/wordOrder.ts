@@ -0,0 +1,230 @@
+import { isNounDeclined } from './noun'
+import type { Clause, Sentence, SentenceToken } from './sentence'
+import type { GrammaticalRole } from './types'
+
+export interface WordOrderResult {
+    /** Every constituent is there, in the right forms, in a permitted order. */
+    isCorrect: boolean
+    /** A permitted order other than the plain one, e.g. a fronted object. */
+    isMarked: boolean
+    /** The learner's order in role letters, e.g. `OVS`. */
+    label?: string
+    /** Why the order was rejected, or what makes a permitted order marked. */
+    message?: string
+}
+
+/** One contiguous run of words: a constituent, or the possessor inside one. */
+export type Piece = {
+    role: GrammaticalRole
+    words: Sentence
+    /** Index of the constituent in the clause. */
+    owner: number
+}
+
+const ROLE_LETTERS: Partial<Record<GrammaticalRole, string>> = {
+    subject: 'S',
+    verb: 'V',
+    directObject: 'O',
+    indirectObject: 'I',
+    prepositionalPhrase: 'P',
+    adverbial: 'A',
+}
+
+/** Roles that can be fronted or trail the verb without reordering the core. */
+const ADJUNCTS: GrammaticalRole[] = ['prepositionalPhrase', 'adverbial']
+
+/**
+ * Checks a learner's sentence against a clause without caring which order
+ * the constituents come in, as long as it is one Old English allows: the
+ * verb second in a main clause (SVO, OVS, or after a fronted adverbial
+ * with the subject before it), and last in a subordinate clause.
+ *
+ * Words inside a constituent keep their order (se gōda cyning, fram þǣm
+ * cyninge), and are matched with `isSameToken`.
+ */
+export function checkWordOrder(
+    sentence: Sentence,
+    clause: Clause
+): WordOrderResult {
+    const pieces = piecesOf(clause)
+    const order = segment(sentence, pieces)
+    if (!order) {
+        return { isCorrect: false, isMarked: false }
+    }
+    const placed = order.map((index) => pieces[index])
+
+    const markedBy: string[] = []
+    for (const [position, piece] of placed.entries()) {
+        if (piece.role !== 'possessor') {
+            continue
+        }
+        const headPosition = placed.findIndex(
+            (other) => other.owner === piece.owner && other !== piece
+        )
+        const head = placed[headPosition]
+        if (Math.abs(headPosition - position) !== 1) {
+            return {
+                isCorrect: false,
+                isMarked: false,
+                message: `"${textOf(piece)}" must stand next to "${textOf(head)}", the phrase it belongs to.`,
+            }
+        }
+        if (headPosition < position) {
+            markedBy.push(
+                `"${textOf(piece)}" usually comes before "${textOf(head)}".`
+            )
+        }
+    }
+
+    const phrases = placed.filter((piece) => piece.role !== 'possessor')
+    const label = phrases
+        .map((piece) => ROLE_LETTERS[piece.role] ?? '')
+        .join('')
+    const rejected = (message: string) => ({
+        isCorrect: false,
+        isMarked: false,
+        label,
+        message,
+    })
+
+    const conjunctionAt = phrases.findIndex(
+        (piece) => piece.role === 'conjunction'
+    )
+    if (conjunctionAt > 0) {
+        return rejected(
+            `"${textOf(phrases[conjunctionAt])}" has to open its clause.`
+        )
+    }
+    const rest = phrases.filter((piece) => piece.role !== 'conjunction')
+    const roles = rest.map((piece) => piece.role)
+    const verbAt = roles.indexOf('verb')
+    if (verbAt === -1) {
+        return accepted(label, markedBy)
+    }
+    const verb = textOf(rest[verbAt])
+
+    if (clause.type === 'main') {
+        const before = roles.slice(0, verbAt)
+        if (before.length === 0) {
+            return rejected(
+                `Only questions and commands start with the verb: put a phrase before "${verb}".`
+            )
+        }
+        if (before.length === 1) {
+            if (before[0] !== 'subject') {
+                markedBy.push(
+                    `Putting "${textOf(rest[0])}" first gives it weight; the plain order starts with the subject.`
+                )
+            }
+        } else if (!(
+            before.length === 2 &&
+            ADJUNCTS.includes(before[0]) &&
+            before[1] === 'subject'
+        )) {
+            return rejected(
+                `In a main clause the verb comes second: "${verb}" should follow "${textOf(rest[0])}".`
+            )
+        }
+    } else {
+        const after = roles.slice(verbAt + 1)
+        if (after.some((role) => !ADJUNCTS.includes(role))) {
+            return rejected(
+                `In a subordinate clause the verb goes at the end: move "${verb}" after "${textOf(rest[rest.length - 1])}".`
+            )
+        }
+        if (after.length) {
+            markedBy.push(
+                `"${textOf(rest[verbAt + 1])}" may follow "${verb}", but the plain order ends with the verb.`
+            )
+        }
+    }
+
+    return accepted(label, markedBy)
+}
+
+/** The clause's constituents, with each possessor split off as its own piece. */
+export function piecesOf(clause: Clause): Piece[] {
+    return clause.constituents.flatMap((constituent, owner) => [
+        ...(constituent.possessor
+            ? [
+                  {
+                      role: 'possessor' as const,
+                      words: constituent.possessor,
+                      owner,
+                  },
+              ]
+            : []),
+        { role: constituent.role, words: constituent.words, owner },
+    ])
+}
+
+function accepted(label: string, markedBy: string[]): WordOrderResult {
+    return {
+        isCorrect: true,
+        isMarked: markedBy.length > 0,
+        label,
+        message: markedBy[0],
+    }
+}
+
+/**
+ * Splits the sentence into the given pieces, each used once and matched word
+ * for word, trying every piece at every position.
+ *
+ * @returns The piece indices in sentence order, or `undefined` if the
+ * sentence can't be split that way.
+ */
+function segment(
+    sentence: Sentence,
+    pieces: Piece[],
+    start = 0,
+    used = new Set<number>()
+): number[] | undefined {
+    if (start === sentence.length) {
+        return used.size === pieces.length ? [] : undefined
+    }
+    for (const [index, piece] of pieces.entries()) {
+        if (
+            used.has(index) ||
+            !piece.words.every((word, offset) =>
+                isSameToken(sentence[start + offset], word)
+            )
+        ) {
+            continue
+        }
+        used.add(index)
+        const rest = segment(sentence, pieces, start + piece.words.length, used)
+        used.delete(index)
+        if (rest) {
+            return [index, ...rest]
+        }
+    }
+    return undefined
+}
+
+/**
+ * Nouns are the same token if they share lemma, case and number; every
+ * other word if it is spelled the same.
+ */
+export function isSameToken(
+    given: SentenceToken | undefined,
+    expected: SentenceToken
+): boolean {
+    if (!given) {
+        return false
+    }
+    if (isNounDeclined(given) || isNounDeclined(expected)) {
+        return (
+            isNounDeclined(given) &&
+            isNounDeclined(expected) &&
+            given.declinations === expected.declinations &&
+            given.caseGram === expected.caseGram &&
+            given.number === expected.number
+        )
+    }
+    return given.value === expected.value
+}
+
+function textOf(piece: Piece) {
+    return piece.words.map((word) => word.value).join(' ')
+}
@@ -0,0 +1,24 @@
+import { pronounce } from './pronunciation'
+
+export default class WordSimple<const T extends string> {
+    #value: T
+    constructor(str: T) {
+        if (str.length <= 0 || /\s/.test(str)) {
+            throw new Error(`Word "${str}" contains a space or is empty.`)
+        }
+        this.#value = str
+    }
+
+    get value(): T {
+        return this.#value
+    }
+
+    /** How the word was said, in IPA; see `pronounce`. */
+    get pronunciation(): string {
+        return pronounce(this.#value)
+    }
+
+    equals(other: string): boolean {
+        return this.#value === other
+    }
+}
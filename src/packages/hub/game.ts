@@ -0,0 +1,64 @@
+import type { ComponentType } from 'react'
+import type { ExerciseTools } from '../exercises/caseExercise'
+import type { LessonPack } from '../lessons/lessonPack'
+import type { LearnerProfile, ProfileSettings } from '../profile/learnerProfile'
+import { rewardFor } from '../shop/shopItems'
+
+/** What the hub hands every game. */
+export interface GameProps {
+    pack: LessonPack
+    /** Shared by all the games: one score, one purse, one review schedule. */
+    profile: LearnerProfile
+    onProfileChange: (
+        update: (previous: LearnerProfile) => LearnerProfile
+    ) => void
+    tools: ExerciseTools
+    /** Everything random in the session follows from it. */
+    sessionSeed: number
+    /** The route after the game's id, e.g. `['lesson', '3']`. */
+    path: string[]
+    onNavigate: (path: string[], options?: { replace?: boolean }) => void
+}
+
+/** How far the learner has got with a game, e.g. 3 of 8 missions. */
+export interface GameProgress {
+    done: number
+    total: number
+    unit: string
+}
+
+/**
+ * One exercise type of the hub. Its id is its address: `#/<id>`, and the
+ * rest of the route is the game's own.
+ */
+export interface Game {
+    id: string
+    title: string
+    description: string
+    /** The learner's settings it follows, offered on its card. */
+    settings: Array<keyof ProfileSettings>
+    /** Left out by games that keep no record of what was done. */
+    progress?: (profile: LearnerProfile, pack: LessonPack) => GameProgress[]
+    component: ComponentType<GameProps>
+}
+
+/**
+ * A drill answer earns coins and keeps the streak like a translation, but
+ * leaves the review schedule alone: that tracks whole sentences.
+ */
+export function withDrillAnswer(
+    profile: LearnerProfile,
+    isCorrect: boolean,
+    attempt: number
+): LearnerProfile {
+    if (!isCorrect) {
+        return { ...profile, streak: 0 }
+    }
+    const streak = attempt === 1 ? profile.streak + 1 : 0
+    return {
+        ...profile,
+        score: profile.score + 10,
+        coins: profile.coins + rewardFor({ attempt, streak }),
+        streak,
+    }
+}
@@ -0,0 +1,109 @@
+import type { ReactNode } from 'react'
+import type { LessonPack } from '../lessons/lessonPack'
+import type { LearnerProfile, ProfileSettings } from '../profile/learnerProfile'
+import { itemCount } from '../shop/shopItems'
+import type { Game } from './game'
+
+interface GameHubProps {
+    games: Game[]
+    pack: LessonPack
+    profile: LearnerProfile
+    onOpen: (game: Game) => void
+    onSettingsChange: (settings: ProfileSettings) => void
+}
+
+/**
+ * The landing page: a card per game with how far the learner has got in
+ * it, and the settings it follows.
+ */
+export default function GameHub({
+    games,
+    pack,
+    profile,
+    onOpen,
+    onSettingsChange,
+}: GameHubProps) {
+    const { settings } = profile
+
+    const settingControls: Record<keyof ProfileSettings, ReactNode> = {
+        answerMode: (
+            <span key="answerMode" className="flex gap-1">
+                Answers:
+                {(['pick', 'type'] as const).map((mode) => (
+                    <button
+                        key={mode}
+                        aria-pressed={settings.answerMode === mode}
+                        onClick={() =>
+                            onSettingsChange({ ...settings, answerMode: mode })
+                        }
+                        className={`px-2 rounded ${
+                            settings.answerMode === mode
+                                ? 'bg-amber-300'
+                                : 'bg-amber-100 hover:bg-amber-200'
+                        }`}
+                    >
+                        {mode === 'pick' ? 'Pick words' : 'Type it'}
+                    </button>
+                ))}
+            </span>
+        ),
+        // Only for those who bought the case lens.
+        showCase: itemCount(profile, 'caseLens') > 0 && (
+            <label key="showCase" className="flex gap-1 items-center">
+                <input
+                    type="checkbox"
+                    checked={settings.showCase}
+                    onChange={(event) =>
+                        onSettingsChange({
+                            ...settings,
+                            showCase: event.target.checked,
+                        })
+                    }
+                />
+                Case lens
+            </label>
+        ),
+    }
+
+    return (
+        <ul className="space-y-2">
+            {games.map((game) => (
+                <li
+                    key={game.id}
+                    className="p-4 rounded bg-amber-100 flex justify-between items-center gap-4"
+                >
+                    <div className="space-y-1">
+                        <h3 className="font-bold">{game.title}</h3>
+                        <p className="text-sm">{game.description}</p>
+                        {game
+                            .progress?.(profile, pack)
+                            .map(({ done, total, unit }) => (
+                                <div key={unit} className="text-sm">
+                                    <progress
+                                        value={done}
+                                        max={total}
+                                        aria-label={unit}
+                                        className="mr-2 align-middle"
+                                    />
+                                    {done} of {total} {unit}
+                                </div>
+                            ))}
+                        {game.settings.length > 0 && (
+                            <div className="flex flex-wrap gap-4 text-sm">
+                                {game.settings.map(
+                                    (key) => settingControls[key]
+                                )}
+                            </div>
+                        )}
+                    </div>
+                    <button
+                        onClick={() => onOpen(game)}
+                        className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Play
+                    </button>
+                </li>
+            ))}
+        </ul>
+    )
+}
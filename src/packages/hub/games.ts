@@ -0,0 +1,67 @@
+import CaseMessenger from '../caseMessenger/caseMessenger'
+import ParadigmDrillGame from '../exercises/paradigmDrillGame'
+import ParsingDrillGame from '../exercises/parsingDrillGame'
+import MiniGameArcade from '../miniGames/miniGameArcade'
+import type { Game } from './game'
+
+const caseMessenger: Game = {
+    id: 'case-messenger',
+    title: 'Old English Case Messenger',
+    description:
+        'Carry messages across the kingdom: build the Old English sentence, with every ending in the right case.',
+    settings: ['answerMode', 'showCase'],
+    progress: (profile, { missions, scenarios }) => [
+        {
+            done: missions.filter(({ id }) =>
+                profile.completedMissions.includes(id)
+            ).length,
+            total: missions.length,
+            unit: 'missions',
+        },
+        {
+            done: scenarios.filter(({ id }) =>
+                profile.completedScenarios.includes(id)
+            ).length,
+            total: scenarios.length,
+            unit: 'lessons',
+        },
+    ],
+    component: CaseMessenger,
+}
+
+const parsingDrill: Game = {
+    id: 'parsing-drill',
+    title: 'Parsing drill',
+    description:
+        'The other way round: read a sentence and say what form each word is.',
+    settings: [],
+    component: ParsingDrillGame,
+}
+
+const paradigmDrill: Game = {
+    id: 'paradigm-drill',
+    title: 'Paradigm drill',
+    description: 'Fill in the whole declension table of a noun.',
+    settings: [],
+    component: ParadigmDrillGame,
+}
+
+const miniGames: Game = {
+    id: 'mini-games',
+    title: 'Mini-games',
+    description: "The missions' skill tests, to play for their own sake.",
+    settings: [],
+    component: MiniGameArcade,
+}
+
+/**
+ * Every game of the hub, by id, in the order the hub lists them. A new
+ * game only has to be added here to get a card and an address. A Map, as
+ * the id comes from the address: `#/constructor` is no game.
+ */
+export const GAMES = new Map<string, Game>(
+    [caseMessenger, parsingDrill, paradigmDrill, miniGames].map((game) => [
+        game.id,
+        game,
+    ])
+)
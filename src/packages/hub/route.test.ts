@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { formatRoute, parseRoute } from './route'
+
+describe('parseRoute', () => {
+    it('reads the segments and the seed', () => {
+        expect(parseRoute('#/case-messenger/lesson/3?seed=1x2k9q')).toEqual({
+            segments: ['case-messenger', 'lesson', '3'],
+            seed: parseInt('1x2k9q', 36),
+        })
+        expect(parseRoute('')).toEqual({ segments: [], seed: undefined })
+    })
+
+    it('reads back what formatRoute wrote', () => {
+        const route = {
+            segments: ['case-messenger', 'mission', 'a/b c'],
+            seed: 7,
+        }
+        expect(parseRoute(formatRoute(route))).toEqual(route)
+    })
+
+    it('keeps a segment that does not decode as it is', () => {
+        expect(parseRoute('#/case-messenger/lesson/%E0%A4%A').segments).toEqual(
+            ['case-messenger', 'lesson', '%E0%A4%A']
+        )
+    })
+
+    it('opens the challenge or session of an address from before the hub', () => {
+        expect(parseRoute('#challenge=1x2k9q-b3z&seed=a')).toEqual({
+            segments: ['case-messenger', 'challenge', '1x2k9q-b3z'],
+            seed: 10,
+        })
+        expect(parseRoute('#seed=a')).toEqual({ segments: [], seed: 10 })
+    })
+})
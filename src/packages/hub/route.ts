@@ -0,0 +1,56 @@
+import { formatSeed, parseSeed } from '../challenge/challenge'
+
+/**
+ * Where the learner is, as the address after `#` says it, e.g.
+ * `#/case-messenger/lesson/3?seed=1x2k9q`: a game's id and the place in it,
+ * then the session seed so the link replays the same session.
+ */
+export interface Route {
+    /** Empty for the hub. */
+    segments: string[]
+    seed?: number
+}
+
+/**
+ * The route in `hash`. Addresses from before the hub, `#challenge=<code>`
+ * and `#seed=<seed>`, still open the challenge or the session they named.
+ */
+export function parseRoute(hash: string): Route {
+    const text = hash.replace(/^#/, '')
+    if (!text.startsWith('/')) {
+        const params = new URLSearchParams(text)
+        const code = params.get('challenge')
+        return {
+            segments: code ? ['case-messenger', 'challenge', code] : [],
+            seed: seedOf(params),
+        }
+    }
+    const [path, query = ''] = text.split('?', 2)
+    return {
+        segments: path.split('/').filter(Boolean).map(decodeSegment),
+        seed: seedOf(new URLSearchParams(query)),
+    }
+}
+
+/** The address for `route`, starting with `#`. */
+export function formatRoute({ segments, seed }: Route): string {
+    const path = segments.map((segment) => encodeURIComponent(segment))
+    return `#/${path.join('/')}${seed === undefined ? '' : `?seed=${formatSeed(seed)}`}`
+}
+
+/**
+ * A segment of a hand-edited or cut-off link may not decode; it is kept as
+ * it is, so it names no game or lesson rather than breaking the app.
+ */
+function decodeSegment(segment: string) {
+    try {
+        return decodeURIComponent(segment)
+    } catch {
+        return segment
+    }
+}
+
+function seedOf(params: URLSearchParams) {
+    const seed = params.get('seed')
+    return seed ? parseSeed(seed) : undefined
+}
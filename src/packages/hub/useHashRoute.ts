@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useState } from 'react'
+import { formatRoute, parseRoute, type Route } from './route'
+
+interface NavigateOptions {
+    /** Take the place of the current address in the history. */
+    replace?: boolean
+}
+
+/**
+ * The route in the address, kept in step with it: the browser's back and
+ * forward buttons and pasted links change it, and `navigate` changes the
+ * address.
+ */
+export function useHashRoute() {
+    const [route, setRoute] = useState(() => parseRoute(window.location.hash))
+
+    useEffect(() => {
+        const handleHashChange = () =>
+            setRoute(parseRoute(window.location.hash))
+        window.addEventListener('hashchange', handleHashChange)
+        return () => window.removeEventListener('hashchange', handleHashChange)
+    }, [])
+
+    const navigate = useCallback(
+        (next: Route, { replace = false }: NavigateOptions = {}) => {
+            const hash = formatRoute(next)
+            if (replace) {
+                // Unlike setting the hash, this fires no `hashchange`.
+                window.history.replaceState(null, '', hash)
+                setRoute(parseRoute(hash))
+            } else {
+                window.location.hash = hash
+            }
+        },
+        []
+    )
+
+    return [route, navigate] as const
+}
@@ -0,0 +1,272 @@
+import type { DeclinationOfAdjective } from '../grammar/adjective'
+import type {
+    ConjugationOverrides,
+    PrincipalParts,
+} from '../grammar/conjugation'
+import type { DeclensionOverrides } from '../grammar/declension'
+import type { MorphologicalAnalyzer } from '../grammar/morphology'
+import type { DeclinationOfNoun } from '../grammar/noun'
+import type { Clause } from '../grammar/sentence'
+import type {
+    ClauseType,
+    DeclensionClass,
+    Degree,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    GrammaticalPerson,
+    GrammaticalRole,
+    Mood,
+    StemLength,
+    Strength,
+    Tense,
+    VerbClass,
+} from '../grammar/types'
+import type { ConjugationOfVerb } from '../grammar/verb'
+
+/*
+ * The JSON a lesson pack is written in. Lexicon entries take the same
+ * options as `declineNoun`, `conjugateVerb` and `declineAdjective`; scenario
+ * words point at them, or at the closed classes (se, ic, fram…), by lemma.
+ */
+
+export interface LessonPackJson {
+    id: string
+    title: string
+    lexicon?: {
+        nouns?: NounEntryJson[]
+        verbs?: VerbEntryJson[]
+        adjectives?: AdjectiveEntryJson[]
+    }
+    scenarios: ScenarioJson[]
+    missions?: MissionJson[]
+}
+
+export interface NounEntryJson {
+    base: string
+    /** The meaning in English, for the glossary. */
+    gloss?: string
+    /** What it names, so generated sentences make sense. */
+    kind?: NounKind
+    gender: GrammaticalGender
+    declensionClass: DeclensionClass
+    stemLength?: StemLength
+    overrides?: DeclensionOverrides
+}
+
+/** The kinds of thing the scenario generator tells apart. */
+export type NounKind = 'person' | 'animal' | 'place'
+
+export interface VerbEntryJson {
+    infinitive: string
+    gloss?: string
+    verbClass: VerbClass
+    principalParts?: PrincipalParts
+    overrides?: ConjugationOverrides
+}
+
+export interface AdjectiveEntryJson {
+    base: string
+    gloss?: string
+    comparative?: string
+    superlative?: string
+    stemLength?: StemLength
+}
+
+/**
+ * The highest scenario id: challenge codes carry the ids as a bit mask,
+ * which has to stay short.
+ */
+export const MAX_SCENARIO_ID = 1023
+
+export interface ScenarioJson {
+    /** Positive integer, at most `MAX_SCENARIO_ID` */
+    id: number
+    modernTranslation: string
+    hint: string
+    clause: {
+        type: ClauseType
+        constituents: ConstituentJson[]
+    }
+}
+
+export interface ConstituentJson {
+    role: GrammaticalRole
+    words: WordRefJson[]
+    possessor?: WordRefJson[]
+    reason?: string
+}
+
+/**
+ * One word of a scenario. Inflecting words give their `lemma` and the
+ * features of the form, e.g. `{ "lemma": "cyning", "case": "nominative",
+ * "number": "singular" }`; which features are needed depends on the word
+ * class. Words that never inflect are given as `{ "word": "nū" }`.
+ */
+export interface WordRefJson {
+    lemma?: string
+    word?: string
+    case?: GrammaticalCase
+    number?: GrammaticalNumber
+    gender?: GrammaticalGender
+    strength?: Strength
+    degree?: Degree
+    person?: GrammaticalPerson
+    tense?: Tense
+    mood?: Mood
+}
+
+/**
+ * A mission of the campaign. `prerequisites` are the ids of the missions
+ * that have to be finished before this one opens.
+ */
+export interface MissionJson {
+    id: string
+    title: string
+    /** Told before the first stage. */
+    briefing: string
+    /** Told once the last stage is done. */
+    debriefing: string
+    prerequisites?: string[]
+    /** The words this mission introduces, each by its lemma. */
+    vocabulary?: VocabularyEntryJson[]
+    stages: MissionStageJson[]
+}
+
+export interface VocabularyEntryJson {
+    lemma: string
+    meaning: string
+}
+
+export type MissionStageJson =
+    | (ChoiceTestStageJson & { type: 'choiceTest' })
+    | (MiniGameStageJson & { type: 'miniGame' })
+    | (TranslationStageJson & { type: 'translation' })
+
+interface StageJson {
+    /** Story told before the stage starts. */
+    narrative?: string
+}
+
+export interface ChoiceTestStageJson extends StageJson {
+    question: string
+    /** At least one of them correct. */
+    options: ChoiceOptionJson[]
+}
+
+export interface ChoiceOptionJson {
+    text: string
+    isCorrect?: boolean
+    /** Shown once the option is picked. */
+    explanation?: string
+}
+
+export interface MiniGameStageJson extends StageJson {
+    /** e.g. `chicken-plucking` */
+    game: string
+}
+
+export interface TranslationStageJson extends StageJson {
+    /** Scenarios of the same pack, played in this order. */
+    scenarioIds: number[]
+}
+
+/*
+ * What the loader builds from it.
+ */
+
+export interface Scenario {
+    /** Positive integer, at most `MAX_SCENARIO_ID` */
+    id: number
+    modernTranslation: string
+    hint: string
+    clause: Clause
+}
+
+export interface LessonPack {
+    id: string
+    title: string
+    lexicon: {
+        nouns: DeclinationOfNoun<string>[]
+        verbs: ConjugationOfVerb<string>[]
+        adjectives: DeclinationOfAdjective<string>[]
+    }
+    scenarios: Scenario[]
+    missions: Mission[]
+    /**
+     * Meanings by lemma, from the lexicon's glosses and then from the
+     * missions' vocabulary, which can also gloss the closed word classes.
+     */
+    glossary: Record<string, string>
+    /** What each noun names, by lemma, for nouns the pack says it of. */
+    kinds: Record<string, NounKind>
+    /** Looks up any form of the lexicon or the closed word classes. */
+    analyzer: MorphologicalAnalyzer
+}
+
+export interface VocabularyEntry {
+    /** The word as the lexicon knows it, e.g. `cyning` or `grētan`. */
+    lemma: string
+    meaning: string
+}
+
+export interface Mission {
+    id: string
+    title: string
+    briefing: string
+    debriefing: string
+    prerequisites: string[]
+    vocabulary: VocabularyEntry[]
+    stages: MissionStage[]
+}
+
+export type MissionStage = ChoiceTestStage | MiniGameStage | TranslationStage
+
+export interface ChoiceTestStage {
+    type: 'choiceTest'
+    narrative?: string
+    question: string
+    options: ChoiceOption[]
+}
+
+export interface ChoiceOption {
+    text: string
+    isCorrect: boolean
+    explanation?: string
+}
+
+export interface MiniGameStage {
+    type: 'miniGame'
+    narrative?: string
+    game: string
+}
+
+export interface TranslationStage {
+    type: 'translation'
+    narrative?: string
+    scenarios: Scenario[]
+}
+
+/** A problem in a pack, at a path like `scenarios[2].clause.constituents[0]`. */
+export interface LessonPackIssue {
+    path: string
+    message: string
+}
+
+export class LessonPackError extends Error {
+    #issues: LessonPackIssue[]
+
+    constructor(packId: string, issues: LessonPackIssue[]) {
+        super(
+            `Lesson pack "${packId}" is invalid:\n${issues
+                .map(({ path, message }) => `  ${path}: ${message}`)
+                .join('\n')}`
+        )
+        this.name = 'LessonPackError'
+        this.#issues = issues
+    }
+
+    get issues() {
+        return this.#issues
+    }
+}
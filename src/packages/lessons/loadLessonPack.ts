@@ -0,0 +1,1099 @@
+import {
+    AdjectiveDeclined,
+    AdjectiveDictionary,
+    type DeclinationOfAdjective,
+} from '../grammar/adjective'
+import { findAgreementErrors } from '../grammar/agreement'
+import { conjugateVerb } from '../grammar/conjugation'
+import { declineAdjective, declineNoun } from '../grammar/declension'
+import { DEMONSTRATIVES, DemonstrativeDeclined } from '../grammar/demonstrative'
+import { findGovernmentErrors } from '../grammar/government'
+import { CLOSED_CLASSES, MorphologicalAnalyzer } from '../grammar/morphology'
+import {
+    DeclinationDictionary,
+    NounDeclined,
+    type DeclinationOfNoun,
+} from '../grammar/noun'
+import { PREPOSITIONS, PrepositionGoverning } from '../grammar/preposition'
+import { PRONOUNS, PronounDeclined } from '../grammar/pronoun'
+import {
+    sentenceOf,
+    type Clause,
+    type Constituent,
+    type Sentence,
+    type SentenceToken,
+} from '../grammar/sentence'
+import type {
+    ClauseType,
+    DeclensionClass,
+    Degree,
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    GrammaticalPerson,
+    GrammaticalRole,
+    Mood,
+    StemLength,
+    Strength,
+    Tense,
+    VerbClass,
+} from '../grammar/types'
+import {
+    ConjugationDictionary,
+    VerbConjugated,
+    type ConjugationOfVerb,
+} from '../grammar/verb'
+import { checkWordOrder } from '../grammar/wordOrder'
+import WordSimple from '../grammar/wordSimple'
+import { MINI_GAMES } from '../miniGames/miniGames'
+import { findPrerequisiteCycle } from '../missions/campaign'
+import {
+    LessonPackError,
+    MAX_SCENARIO_ID,
+    type ChoiceOption,
+    type LessonPack,
+    type LessonPackIssue,
+    type Mission,
+    type MissionStage,
+    type NounKind,
+    type Scenario,
+    type VocabularyEntry,
+} from './lessonPack'
+
+const CASES: GrammaticalCase[] = [
+    'nominative',
+    'accusative',
+    'genitive',
+    'dative',
+    'instrumental',
+]
+const NUMBERS: GrammaticalNumber[] = ['singular', 'dual', 'plural']
+const GENDERS: GrammaticalGender[] = ['masculine', 'feminine', 'neuter']
+const STRENGTHS: Strength[] = ['strong', 'weak']
+const DEGREES: Degree[] = ['positive', 'comparative', 'superlative']
+const PERSONS: GrammaticalPerson[] = ['first', 'second', 'third']
+const PERSON_NUMBERS = [
+    'firstSingular',
+    'secondSingular',
+    'thirdSingular',
+    'plural',
+]
+const TENSES: Tense[] = ['present', 'past']
+const MOODS: Mood[] = ['indicative', 'subjunctive', 'imperative']
+const DECLENSION_CLASSES: DeclensionClass[] = [
+    'a-stem',
+    'ō-stem',
+    'n-stem',
+    'i-stem',
+    'u-stem',
+    'root',
+]
+const STEM_LENGTHS: StemLength[] = ['short', 'long']
+const NOUN_KINDS: NounKind[] = ['person', 'animal', 'place']
+const VERB_CLASSES: VerbClass[] = [
+    'weak-1',
+    'weak-2',
+    'weak-3',
+    'strong-1',
+    'strong-2',
+    'strong-3',
+    'strong-4',
+    'strong-5',
+    'strong-6',
+    'strong-7',
+    'anomalous',
+]
+const CLAUSE_TYPES: ClauseType[] = ['main', 'subordinate']
+const ROLES: GrammaticalRole[] = [
+    'subject',
+    'verb',
+    'directObject',
+    'indirectObject',
+    'possessor',
+    'prepositionalPhrase',
+    'adverbial',
+    'conjunction',
+]
+const STAGE_TYPES: MissionStage['type'][] = [
+    'choiceTest',
+    'miniGame',
+    'translation',
+]
+
+type Json = Record<string, unknown>
+
+type Dictionaries = {
+    nouns: DeclinationDictionary<string>
+    verbs: ConjugationDictionary<string>
+    adjectives: AdjectiveDictionary<string>
+}
+
+/**
+ * Builds a lesson pack from its JSON (see `LessonPackJson`), resolving every
+ * scenario word against the pack's lexicon and the closed word classes.
+ *
+ * Nothing is built from a broken pack: every problem found is collected
+ * first and thrown together as a `LessonPackError`, each one with the path
+ * it was found at, e.g.
+ * `scenarios[1].clause.constituents[0].words[1].lemma: "cyningg" is not a
+ * known word.`
+ */
+export function loadLessonPack(json: unknown): LessonPack {
+    const reader = new PackReader()
+    const pack = reader.object(json, '(root)') ?? {}
+    const id = reader.string(pack.id, 'id') ?? '(unnamed)'
+    const title = reader.string(pack.title, 'title') ?? ''
+
+    const lexiconJson =
+        pack.lexicon === undefined
+            ? {}
+            : (reader.object(pack.lexicon, 'lexicon') ?? {})
+    const lexicon = {
+        nouns: readEntries(
+            reader,
+            lexiconJson.nouns,
+            'lexicon.nouns',
+            readNoun
+        ),
+        verbs: readEntries(
+            reader,
+            lexiconJson.verbs,
+            'lexicon.verbs',
+            readVerb
+        ),
+        adjectives: readEntries(
+            reader,
+            lexiconJson.adjectives,
+            'lexicon.adjectives',
+            readAdjective
+        ),
+    }
+    const dictionaries: Dictionaries = {
+        nouns: new DeclinationDictionary(lexicon.nouns),
+        verbs: new ConjugationDictionary(lexicon.verbs),
+        adjectives: new AdjectiveDictionary(lexicon.adjectives),
+    }
+
+    const ids = new Set<number>()
+    const scenarios = reader
+        .array(pack.scenarios, 'scenarios')
+        .flatMap((value, index) => {
+            const path = `scenarios[${index}]`
+            // Checked on the raw JSON, so a clash is reported even when the
+            // other scenario has problems of its own.
+            const id = (value as Json | null)?.id
+            if (typeof id === 'number') {
+                if (ids.has(id)) {
+                    reader.report(
+                        `${path}.id`,
+                        `${id} is already used by another scenario.`
+                    )
+                }
+                ids.add(id)
+            }
+            const scenario = readScenario(reader, value, path, dictionaries)
+            return scenario ? [scenario] : []
+        })
+
+    const missions = readMissions(
+        reader,
+        pack.missions,
+        scenarios,
+        dictionaries
+    )
+
+    // Without a prototype, so looking up any lemma is safe.
+    const glossary: Record<string, string> = Object.create(null)
+    for (const [kind, key] of [
+        ['nouns', 'base'],
+        ['verbs', 'infinitive'],
+        ['adjectives', 'base'],
+    ] as const) {
+        reader
+            .array(lexiconJson[kind], `lexicon.${kind}`, true)
+            .forEach((entry, index) => {
+                const lemma = (entry as Json | null)?.[key]
+                const gloss = reader.string(
+                    (entry as Json | null)?.gloss,
+                    `lexicon.${kind}[${index}].gloss`,
+                    true
+                )
+                if (typeof lemma === 'string' && gloss) {
+                    glossary[lemma] = gloss
+                }
+            })
+    }
+    for (const { vocabulary } of missions) {
+        for (const { lemma, meaning } of vocabulary) {
+            glossary[lemma] ??= meaning
+        }
+    }
+
+    const kinds: Record<string, NounKind> = Object.create(null)
+    reader
+        .array(lexiconJson.nouns, 'lexicon.nouns', true)
+        .forEach((entry, index) => {
+            const base = (entry as Json | null)?.base
+            const kind = reader.oneOf(
+                (entry as Json | null)?.kind,
+                NOUN_KINDS,
+                `lexicon.nouns[${index}].kind`,
+                true
+            )
+            if (typeof base === 'string' && kind) {
+                kinds[base] = kind
+            }
+        })
+
+    if (reader.issues.length) {
+        throw new LessonPackError(id, reader.issues)
+    }
+    const analyzer = new MorphologicalAnalyzer([
+        ...CLOSED_CLASSES,
+        ...lexicon.nouns,
+        ...lexicon.verbs,
+        ...lexicon.adjectives,
+    ])
+    return {
+        id,
+        title,
+        lexicon,
+        scenarios,
+        missions,
+        glossary,
+        kinds,
+        analyzer,
+    }
+}
+
+/**
+ * Collects issues while reading untyped JSON. Every read reports what it
+ * expected and returns `undefined` instead of throwing, so one pass finds
+ * every problem in a pack.
+ */
+class PackReader {
+    #issues: LessonPackIssue[] = []
+
+    get issues() {
+        return this.#issues
+    }
+
+    report(path: string, message: string) {
+        this.#issues.push({ path, message })
+    }
+
+    object(value: unknown, path: string): Json | undefined {
+        if (
+            typeof value === 'object' &&
+            value !== null &&
+            !Array.isArray(value)
+        ) {
+            return value as Json
+        }
+        this.report(path, `Expected an object, got ${describe(value)}.`)
+        return undefined
+    }
+
+    array(value: unknown, path: string, optional = false): unknown[] {
+        if (Array.isArray(value)) {
+            return value
+        }
+        if (!(optional && value === undefined)) {
+            this.report(path, `Expected an array, got ${describe(value)}.`)
+        }
+        return []
+    }
+
+    string(value: unknown, path: string, optional = false) {
+        if (typeof value === 'string' && value.length) {
+            return value
+        }
+        if (!(optional && value === undefined)) {
+            this.report(path, `Expected a string, got ${describe(value)}.`)
+        }
+        return undefined
+    }
+
+    oneOf<T extends string>(
+        value: unknown,
+        options: T[],
+        path: string,
+        optional = false
+    ): T | undefined {
+        if (options.includes(value as T)) {
+            return value as T
+        }
+        if (!(optional && value === undefined)) {
+            this.report(
+                path,
+                `Expected one of ${options.join(', ')}, got ${describe(value)}.`
+            )
+        }
+        return undefined
+    }
+
+    /** Runs a constructor that may throw, reporting its error at `path`. */
+    attempt<R>(path: string, build: () => R): R | undefined {
+        try {
+            return build()
+        } catch (error) {
+            this.report(
+                path,
+                error instanceof Error ? error.message : String(error)
+            )
+            return undefined
+        }
+    }
+}
+
+function describe(value: unknown) {
+    return value === undefined ? 'nothing' : JSON.stringify(value)
+}
+
+function readEntries<R>(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    read: (reader: PackReader, value: unknown, path: string) => R | undefined
+): R[] {
+    return reader.array(value, path, true).flatMap((entry, index) => {
+        const result = read(reader, entry, `${path}[${index}]`)
+        return result ? [result] : []
+    })
+}
+
+function readNoun(
+    reader: PackReader,
+    value: unknown,
+    path: string
+): DeclinationOfNoun<string> | undefined {
+    const entry = reader.object(value, path)
+    if (!entry) {
+        return undefined
+    }
+    const base = reader.string(entry.base, `${path}.base`)
+    const gender = reader.oneOf(entry.gender, GENDERS, `${path}.gender`)
+    const declensionClass = reader.oneOf(
+        entry.declensionClass,
+        DECLENSION_CLASSES,
+        `${path}.declensionClass`
+    )
+    const stemLength = reader.oneOf(
+        entry.stemLength,
+        STEM_LENGTHS,
+        `${path}.stemLength`,
+        true
+    )
+    const overrides =
+        entry.overrides === undefined
+            ? undefined
+            : readTable(
+                  reader,
+                  entry.overrides,
+                  `${path}.overrides`,
+                  Object.fromEntries(
+                      CASES.map((caseGram) => [caseGram, formsOf(NUMBERS)])
+                  )
+              )
+    if (
+        !base ||
+        !gender ||
+        !declensionClass ||
+        (entry.overrides !== undefined && !overrides)
+    ) {
+        return undefined
+    }
+    return reader.attempt(path, () =>
+        declineNoun({ base, gender, declensionClass, stemLength, overrides })
+    )
+}
+
+function readVerb(
+    reader: PackReader,
+    value: unknown,
+    path: string
+): ConjugationOfVerb<string> | undefined {
+    const entry = reader.object(value, path)
+    if (!entry) {
+        return undefined
+    }
+    const infinitive = reader.string(entry.infinitive, `${path}.infinitive`)
+    const verbClass = reader.oneOf(
+        entry.verbClass,
+        VERB_CLASSES,
+        `${path}.verbClass`
+    )
+    const principalPartsJson =
+        entry.principalParts === undefined
+            ? undefined
+            : reader.object(entry.principalParts, `${path}.principalParts`)
+    const principalParts = principalPartsJson && {
+        pastSingular: reader.string(
+            principalPartsJson.pastSingular,
+            `${path}.principalParts.pastSingular`
+        ),
+        pastPlural: reader.string(
+            principalPartsJson.pastPlural,
+            `${path}.principalParts.pastPlural`
+        ),
+        pastParticiple: reader.string(
+            principalPartsJson.pastParticiple,
+            `${path}.principalParts.pastParticiple`
+        ),
+    }
+    const overrides =
+        entry.overrides === undefined
+            ? undefined
+            : readTable(reader, entry.overrides, `${path}.overrides`, {
+                  present: readTense,
+                  past: readTense,
+                  imperative: formsOf(NUMBERS),
+                  presentParticiple: readForm,
+                  pastParticiple: readForm,
+              })
+    if (
+        !infinitive ||
+        !verbClass ||
+        (entry.overrides !== undefined && !overrides) ||
+        (entry.principalParts !== undefined &&
+            !(principalParts && hasAll(principalParts)))
+    ) {
+        return undefined
+    }
+    return reader.attempt(path, () =>
+        conjugateVerb({
+            infinitive,
+            verbClass,
+            principalParts:
+                principalParts && hasAll(principalParts)
+                    ? principalParts
+                    : undefined,
+            overrides,
+        })
+    )
+}
+
+type Read = (reader: PackReader, value: unknown, path: string) => unknown
+
+/**
+ * Reads an object whose keys are all among those of `read`, each value read
+ * by its reader. Undefined if anything in it is wrong, e.g. a misspelled
+ * case in a noun's overrides.
+ */
+function readTable(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    read: Record<string, Read>
+): Json | undefined {
+    const table = reader.object(value, path)
+    if (!table) {
+        return undefined
+    }
+    const keys = Object.keys(read)
+    let isValid = true
+    for (const [key, member] of Object.entries(table)) {
+        const memberPath = `${path}.${key}`
+        const readMember = reader.oneOf(key, keys, memberPath)
+            ? read[key]
+            : undefined
+        if (!readMember?.(reader, member, memberPath)) {
+            isValid = false
+        }
+    }
+    return isValid ? table : undefined
+}
+
+function readForm(reader: PackReader, value: unknown, path: string) {
+    return reader.string(value, path)
+}
+
+function readTense(reader: PackReader, value: unknown, path: string) {
+    return readTable(reader, value, path, {
+        indicative: formsOf(PERSON_NUMBERS),
+        subjunctive: formsOf(NUMBERS),
+    })
+}
+
+/** A reader of spellings by `keys`, e.g. by number: `{ singular: 'bōce' }`. */
+function formsOf(keys: string[]): Read {
+    return (reader, value, path) =>
+        readTable(
+            reader,
+            value,
+            path,
+            Object.fromEntries(keys.map((key) => [key, readForm]))
+        )
+}
+
+function readAdjective(
+    reader: PackReader,
+    value: unknown,
+    path: string
+): DeclinationOfAdjective<string> | undefined {
+    const entry = reader.object(value, path)
+    if (!entry) {
+        return undefined
+    }
+    const base = reader.string(entry.base, `${path}.base`)
+    const comparative = reader.string(
+        entry.comparative,
+        `${path}.comparative`,
+        true
+    )
+    const superlative = reader.string(
+        entry.superlative,
+        `${path}.superlative`,
+        true
+    )
+    const stemLength = reader.oneOf(
+        entry.stemLength,
+        STEM_LENGTHS,
+        `${path}.stemLength`,
+        true
+    )
+    if (!base) {
+        return undefined
+    }
+    return reader.attempt(path, () =>
+        declineAdjective({ base, comparative, superlative, stemLength })
+    )
+}
+
+function readScenario(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    dictionaries: Dictionaries
+): Scenario | undefined {
+    const scenario = reader.object(value, path)
+    if (!scenario) {
+        return undefined
+    }
+    const id = scenario.id
+    if (
+        typeof id !== 'number' ||
+        !Number.isInteger(id) ||
+        id < 1 ||
+        id > MAX_SCENARIO_ID
+    ) {
+        reader.report(
+            `${path}.id`,
+            `Expected a whole number from 1 to ${MAX_SCENARIO_ID}, got ${describe(id)}.`
+        )
+    }
+    const modernTranslation = reader.string(
+        scenario.modernTranslation,
+        `${path}.modernTranslation`
+    )
+    const hint = reader.string(scenario.hint, `${path}.hint`)
+    const clause = readClause(
+        reader,
+        scenario.clause,
+        `${path}.clause`,
+        dictionaries
+    )
+    if (typeof id !== 'number' || !modernTranslation || !hint || !clause) {
+        return undefined
+    }
+    return { id, modernTranslation, hint, clause }
+}
+
+function readClause(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    dictionaries: Dictionaries
+): Clause | undefined {
+    const clauseJson = reader.object(value, path)
+    if (!clauseJson) {
+        return undefined
+    }
+    const type = reader.oneOf(clauseJson.type, CLAUSE_TYPES, `${path}.type`)
+    const constituentsJson = reader.array(
+        clauseJson.constituents,
+        `${path}.constituents`
+    )
+    const constituents = constituentsJson.map((constituent, index) =>
+        readConstituent(
+            reader,
+            constituent,
+            `${path}.constituents[${index}]`,
+            dictionaries
+        )
+    )
+    if (!type || !constituents.length) {
+        if (type && !constituents.length) {
+            reader.report(`${path}.constituents`, 'A clause needs words.')
+        }
+        return undefined
+    }
+    if (!isEveryConstituent(constituents)) {
+        return undefined
+    }
+
+    // The model answer has to pass the same checks as the learner's.
+    const clause = { type, constituents }
+    const sentence = sentenceOf(clause)
+    const errors = [
+        ...findGovernmentErrors(sentence),
+        ...findAgreementErrors(sentence),
+    ]
+    const wordOrder = checkWordOrder(sentence, clause)
+    if (!wordOrder.isCorrect) {
+        errors.push(wordOrder.message ?? 'Its word order is not allowed.')
+    }
+    for (const error of errors) {
+        reader.report(path, `The model answer fails its own check: ${error}`)
+    }
+    return clause
+}
+
+function isEveryConstituent(
+    constituents: Array<Constituent | undefined>
+): constituents is Constituent[] {
+    return constituents.every((constituent) => constituent !== undefined)
+}
+
+function readConstituent(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    dictionaries: Dictionaries
+): Constituent | undefined {
+    const constituent = reader.object(value, path)
+    if (!constituent) {
+        return undefined
+    }
+    const role = reader.oneOf(constituent.role, ROLES, `${path}.role`)
+    const reason = reader.string(constituent.reason, `${path}.reason`, true)
+    const words = readWords(
+        reader,
+        constituent.words,
+        `${path}.words`,
+        dictionaries
+    )
+    const possessor =
+        constituent.possessor === undefined
+            ? undefined
+            : readWords(
+                  reader,
+                  constituent.possessor,
+                  `${path}.possessor`,
+                  dictionaries
+              )
+    if (
+        !role ||
+        !words ||
+        (constituent.possessor !== undefined && !possessor)
+    ) {
+        return undefined
+    }
+    return { role, words, possessor, reason }
+}
+
+function readWords(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    dictionaries: Dictionaries
+): Sentence | undefined {
+    const refs = reader.array(value, path)
+    if (Array.isArray(value) && !refs.length) {
+        reader.report(path, 'Expected at least one word.')
+    }
+    const words = refs.map((ref, index) =>
+        readWord(reader, ref, `${path}[${index}]`, dictionaries)
+    )
+    return words.length && words.every((word) => word !== undefined)
+        ? (words as Sentence)
+        : undefined
+}
+
+/**
+ * Resolves one `WordRefJson`. The lemma decides the word class, and with it
+ * which features have to be given: nouns and pronouns need case and number,
+ * determiners a gender as well, adjectives a strength on top of that, and
+ * verbs person, number, tense and mood.
+ */
+function readWord(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    { nouns, verbs, adjectives }: Dictionaries
+): SentenceToken | undefined {
+    const ref = reader.object(value, path)
+    if (!ref) {
+        return undefined
+    }
+    if (ref.word !== undefined) {
+        const word = reader.string(ref.word, `${path}.word`)
+        return word ? new WordSimple(word) : undefined
+    }
+    const lemma = reader.string(ref.lemma, `${path}.lemma`)
+    if (!lemma) {
+        return undefined
+    }
+
+    const caseGram = (optional = false) =>
+        reader.oneOf(ref.case, CASES, `${path}.case`, optional)
+    const number = () => reader.oneOf(ref.number, NUMBERS, `${path}.number`)
+    const gender = () => reader.oneOf(ref.gender, GENDERS, `${path}.gender`)
+
+    const noun = nouns.get(lemma)
+    if (noun) {
+        const features = { caseGram: caseGram(), number: number() }
+        return hasAll(features)
+            ? reader.attempt(
+                  path,
+                  () => new NounDeclined({ declinations: noun, ...features })
+              )
+            : undefined
+    }
+    const verb = verbs.get(lemma)
+    if (verb) {
+        const features = {
+            person: reader.oneOf(ref.person, PERSONS, `${path}.person`),
+            number: number(),
+            tense: reader.oneOf(ref.tense, TENSES, `${path}.tense`),
+            mood: reader.oneOf(ref.mood, MOODS, `${path}.mood`),
+        }
+        return hasAll(features)
+            ? reader.attempt(
+                  path,
+                  () => new VerbConjugated({ conjugations: verb, ...features })
+              )
+            : undefined
+    }
+    const adjective = adjectives.get(lemma)
+    if (adjective) {
+        const degree = reader.oneOf(ref.degree, DEGREES, `${path}.degree`, true)
+        const features = {
+            strength: reader.oneOf(ref.strength, STRENGTHS, `${path}.strength`),
+            gender: gender(),
+            caseGram: caseGram(),
+            number: number(),
+        }
+        return hasAll(features)
+            ? reader.attempt(
+                  path,
+                  () =>
+                      new AdjectiveDeclined({
+                          declinations: adjective,
+                          degree,
+                          ...features,
+                      })
+              )
+            : undefined
+    }
+    const demonstrative = ownEntry(DEMONSTRATIVES, lemma)
+    if (demonstrative) {
+        const features = {
+            gender: gender(),
+            caseGram: caseGram(),
+            number: number(),
+        }
+        return hasAll(features)
+            ? reader.attempt(
+                  path,
+                  () =>
+                      new DemonstrativeDeclined({
+                          declinations: demonstrative,
+                          ...features,
+                      })
+              )
+            : undefined
+    }
+    const pronoun = ownEntry(PRONOUNS, lemma)
+    if (pronoun) {
+        const features = { caseGram: caseGram(), number: number() }
+        return hasAll(features)
+            ? reader.attempt(
+                  path,
+                  () =>
+                      new PronounDeclined({
+                          declinations: pronoun,
+                          ...features,
+                      })
+              )
+            : undefined
+    }
+    const preposition = ownEntry(PREPOSITIONS, lemma)
+    if (preposition) {
+        const governed = caseGram(true)
+        return reader.attempt(
+            path,
+            () =>
+                new PrepositionGoverning({
+                    preposition,
+                    caseGram: governed,
+                })
+        )
+    }
+
+    reader.report(`${path}.lemma`, `"${lemma}" is not a known word.`)
+    return undefined
+}
+
+/**
+ * Reads the campaign, checking that every mission id is unique, that every
+ * prerequisite is a mission of the pack, and that no chain of prerequisites
+ * loops back on itself.
+ */
+function readMissions(
+    reader: PackReader,
+    value: unknown,
+    scenarios: Scenario[],
+    dictionaries: Dictionaries
+): Mission[] {
+    const ids = new Set<string>()
+    const entries = reader
+        .array(value, 'missions', true)
+        .map((mission, index) => {
+            const path = `missions[${index}]`
+            const id = (mission as Json | null)?.id
+            if (typeof id === 'string') {
+                if (ids.has(id)) {
+                    reader.report(
+                        `${path}.id`,
+                        `"${id}" is already used by another mission.`
+                    )
+                }
+                ids.add(id)
+            }
+            return {
+                path,
+                mission: readMission(
+                    reader,
+                    mission,
+                    path,
+                    scenarios,
+                    dictionaries
+                ),
+            }
+        })
+
+    for (const { path, mission } of entries) {
+        mission?.prerequisites.forEach((prerequisite, index) => {
+            if (!ids.has(prerequisite)) {
+                reader.report(
+                    `${path}.prerequisites[${index}]`,
+                    `"${prerequisite}" is not a mission of this pack.`
+                )
+            }
+        })
+    }
+    const missions = entries.flatMap(({ mission }) =>
+        mission ? [mission] : []
+    )
+    const cycle = findPrerequisiteCycle(missions)
+    if (cycle) {
+        reader.report(
+            'missions',
+            `These missions require each other, so none of them can be started: ${cycle.join(' → ')}.`
+        )
+    }
+    return missions
+}
+
+function readMission(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    scenarios: Scenario[],
+    dictionaries: Dictionaries
+): Mission | undefined {
+    const mission = reader.object(value, path)
+    if (!mission) {
+        return undefined
+    }
+    const id = reader.string(mission.id, `${path}.id`)
+    const title = reader.string(mission.title, `${path}.title`)
+    const briefing = reader.string(mission.briefing, `${path}.briefing`)
+    const debriefing = reader.string(mission.debriefing, `${path}.debriefing`)
+    const prerequisites = reader
+        .array(mission.prerequisites, `${path}.prerequisites`, true)
+        .map((prerequisite, index) =>
+            reader.string(prerequisite, `${path}.prerequisites[${index}]`)
+        )
+    const vocabulary = readEntries(
+        reader,
+        mission.vocabulary,
+        `${path}.vocabulary`,
+        (reader, entry, entryPath) =>
+            readVocabularyEntry(reader, entry, entryPath, dictionaries)
+    )
+    const stagesJson = reader.array(mission.stages, `${path}.stages`)
+    if (Array.isArray(mission.stages) && !stagesJson.length) {
+        reader.report(`${path}.stages`, 'A mission needs at least one stage.')
+    }
+    const stages = stagesJson.map((stage, index) =>
+        readStage(reader, stage, `${path}.stages[${index}]`, scenarios)
+    )
+    if (
+        !id ||
+        !title ||
+        !briefing ||
+        !debriefing ||
+        !hasAll(prerequisites) ||
+        !stages.length ||
+        !hasAll(stages)
+    ) {
+        return undefined
+    }
+    return {
+        id,
+        title,
+        briefing,
+        debriefing,
+        prerequisites,
+        vocabulary,
+        stages,
+    }
+}
+
+function readVocabularyEntry(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    { nouns, verbs, adjectives }: Dictionaries
+): VocabularyEntry | undefined {
+    const entry = reader.object(value, path)
+    if (!entry) {
+        return undefined
+    }
+    const lemma = reader.string(entry.lemma, `${path}.lemma`)
+    const meaning = reader.string(entry.meaning, `${path}.meaning`)
+    if (!lemma || !meaning) {
+        return undefined
+    }
+    const isKnown =
+        nouns.get(lemma) ??
+        verbs.get(lemma) ??
+        adjectives.get(lemma) ??
+        ownEntry(DEMONSTRATIVES, lemma) ??
+        ownEntry(PRONOUNS, lemma) ??
+        ownEntry(PREPOSITIONS, lemma)
+    if (!isKnown) {
+        reader.report(`${path}.lemma`, `"${lemma}" is not a known word.`)
+        return undefined
+    }
+    return { lemma, meaning }
+}
+
+function readStage(
+    reader: PackReader,
+    value: unknown,
+    path: string,
+    scenarios: Scenario[]
+): MissionStage | undefined {
+    const stage = reader.object(value, path)
+    if (!stage) {
+        return undefined
+    }
+    const type = reader.oneOf(stage.type, STAGE_TYPES, `${path}.type`)
+    const narrative = reader.string(stage.narrative, `${path}.narrative`, true)
+
+    switch (type) {
+        case 'choiceTest': {
+            const question = reader.string(stage.question, `${path}.question`)
+            const options = readEntries(
+                reader,
+                stage.options,
+                `${path}.options`,
+                readChoiceOption
+            )
+            if (
+                Array.isArray(stage.options) &&
+                !options.some((option) => option.isCorrect)
+            ) {
+                reader.report(
+                    `${path}.options`,
+                    'At least one option has to be correct.'
+                )
+            }
+            return question && options.length
+                ? { type, narrative, question, options }
+                : undefined
+        }
+        case 'miniGame': {
+            const game = reader.string(stage.game, `${path}.game`)
+            if (game && !MINI_GAMES.has(game)) {
+                reader.report(
+                    `${path}.game`,
+                    `"${game}" is not a mini-game. Known ones: ${[...MINI_GAMES.keys()].join(', ')}.`
+                )
+                return undefined
+            }
+            return game ? { type, narrative, game } : undefined
+        }
+        case 'translation': {
+            const ids = reader.array(stage.scenarioIds, `${path}.scenarioIds`)
+            if (Array.isArray(stage.scenarioIds) && !ids.length) {
+                reader.report(
+                    `${path}.scenarioIds`,
+                    'Expected at least one scenario.'
+                )
+            }
+            const stageScenarios = ids.map((id, index) => {
+                const scenario = scenarios.find(
+                    (scenario) => scenario.id === id
+                )
+                if (!scenario) {
+                    reader.report(
+                        `${path}.scenarioIds[${index}]`,
+                        `${describe(id)} is not a scenario of this pack.`
+                    )
+                }
+                return scenario
+            })
+            return stageScenarios.length && hasAll(stageScenarios)
+                ? { type, narrative, scenarios: stageScenarios }
+                : undefined
+        }
+        default:
+            return undefined
+    }
+}
+
+function readChoiceOption(
+    reader: PackReader,
+    value: unknown,
+    path: string
+): ChoiceOption | undefined {
+    const option = reader.object(value, path)
+    if (!option) {
+        return undefined
+    }
+    const text = reader.string(option.text, `${path}.text`)
+    if (
+        option.isCorrect !== undefined &&
+        typeof option.isCorrect !== 'boolean'
+    ) {
+        reader.report(
+            `${path}.isCorrect`,
+            `Expected true or false, got ${describe(option.isCorrect)}.`
+        )
+    }
+    const explanation = reader.string(
+        option.explanation,
+        `${path}.explanation`,
+        true
+    )
+    return text
+        ? { text, isCorrect: option.isCorrect === true, explanation }
+        : undefined
+}
+
+function hasAll<T extends object>(
+    features: T
+): features is { [K in keyof T]: NonNullable<T[K]> } {
+    return Object.values(features).every((feature) => feature !== undefined)
+}
+
+/** `record[key]`, but not for keys inherited from `Object.prototype`. */
+function ownEntry<T extends object>(record: T, key: string) {
+    return Object.prototype.hasOwnProperty.call(record, key)
+        ? record[key as keyof T]
+        : undefined
+}
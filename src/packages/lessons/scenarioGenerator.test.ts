@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { SeededRandom } from '../random/seededRandom'
+import type { NounKind } from './lessonPack'
+import { loadLessonPack } from './loadLessonPack'
+import caseMessengerPack from './packs/caseMessenger.json'
+import {
+    fillTemplate,
+    generateScenario,
+    templatesFor,
+    TEMPLATES,
+    type ScenarioTemplate,
+} from './scenarioGenerator'
+
+const pack = loadLessonPack(caseMessengerPack)
+
+/** The pack with only the first noun of each of `kinds`. */
+function packWith(...kinds: NounKind[]) {
+    const nouns = kinds.map((kind) =>
+        pack.lexicon.nouns.find((noun) => pack.kinds[noun.base.value] === kind)!
+    )
+    return { ...pack, lexicon: { ...pack.lexicon, nouns } }
+}
+
+/** Its subject can be a person or an animal, its object only an animal. */
+const FINDS: ScenarioTemplate = {
+    name: 'X finds Y',
+    verb: 'findan',
+    english: { thirdSingular: 'finds', plural: 'find', past: 'found' },
+    tenses: ['present'],
+    slots: [
+        { role: 'subject', kinds: ['person', 'animal'] },
+        { role: 'verb' },
+        { role: 'directObject', kinds: ['animal'] },
+    ],
+    pattern: '{subject} {verb} {directObject}',
+}
+
+describe('templatesFor', () => {
+    it('offers every template to a pack with all their words', () => {
+        expect(templatesFor(pack)).toEqual(TEMPLATES)
+    })
+
+    it('keeps a template a noun fits only if the others leave it free', () => {
+        const smallPack = packWith('animal', 'person')
+        expect(templatesFor(smallPack, [FINDS])).toEqual([FINDS])
+        expect(templatesFor(packWith('animal'), [FINDS])).toEqual([])
+    })
+})
+
+describe('fillTemplate', () => {
+    it('fills a template with the nouns that fit, whatever the seed', () => {
+        const smallPack = packWith('animal', 'person')
+        for (let seed = 1; seed <= 20; seed++) {
+            const { clause } = fillTemplate(
+                smallPack,
+                FINDS,
+                new SeededRandom(seed),
+                1
+            )
+            const [subject, , object] = clause.constituents
+            expect(subject.words[1].value).not.toBe(object.words[1].value)
+        }
+    })
+
+    it('makes the same scenario from the same seed', () => {
+        const first = generateScenario(pack, new SeededRandom(9), 1)
+        expect(generateScenario(pack, new SeededRandom(9), 1)).toEqual(first)
+    })
+})
@@ -0,0 +1,434 @@
+import { DEMONSTRATIVES, DemonstrativeDeclined } from '../grammar/demonstrative'
+import { NounDeclined, type DeclinationOfNoun } from '../grammar/noun'
+import { PREPOSITIONS, PrepositionGoverning } from '../grammar/preposition'
+import type { Constituent, Sentence } from '../grammar/sentence'
+import type {
+    GrammaticalCase,
+    GrammaticalNumber,
+    Tense,
+} from '../grammar/types'
+import { VerbConjugated } from '../grammar/verb'
+import type { SeededRandom } from '../random/seededRandom'
+import type { LessonPack, NounKind, Scenario } from './lessonPack'
+
+/** A noun phrase of a template, and which nouns make sense in it. */
+interface NounSlot {
+    role: 'subject' | 'directObject' | 'indirectObject'
+    kinds: NounKind[]
+    /** Kinds for a genitive before the phrase, as in "the bishop's thane". */
+    possessor?: NounKind[]
+}
+
+interface PrepositionSlot {
+    role: 'prepositionalPhrase'
+    preposition: keyof typeof PREPOSITIONS
+    caseGram: GrammaticalCase
+    kinds: NounKind[]
+}
+
+interface VerbSlot {
+    role: 'verb'
+}
+
+/**
+ * A sentence with its roles left open, e.g. "X greets Y". The verb is a
+ * lemma of the lexicon; the nouns are drawn from it by kind.
+ */
+export interface ScenarioTemplate {
+    /** e.g. `X gives Y to Z` */
+    name: string
+    verb: string
+    /** The English verb, which the lexicon's gloss (`to give`) can't tell. */
+    english: { thirdSingular: string; plural: string; past: string }
+    tenses: Tense[]
+    /** In the order of the model answer. */
+    slots: Array<NounSlot | PrepositionSlot | VerbSlot>
+    /**
+     * The translation, with each role's English phrase in braces, e.g.
+     * `{subject} {verb} {directObject} to {indirectObject}`.
+     */
+    pattern: string
+}
+
+export const TEMPLATES: ScenarioTemplate[] = [
+    {
+        name: 'X greets Y',
+        verb: 'grētan',
+        english: { thirdSingular: 'greets', plural: 'greet', past: 'greeted' },
+        tenses: ['present', 'past'],
+        slots: [
+            { role: 'subject', kinds: ['person'] },
+            { role: 'verb' },
+            { role: 'directObject', kinds: ['person'] },
+        ],
+        pattern: '{subject} {verb} {directObject}',
+    },
+    {
+        name: 'X gives Y to Z',
+        verb: 'giefan',
+        english: { thirdSingular: 'gives', plural: 'give', past: 'gave' },
+        tenses: ['present', 'past'],
+        slots: [
+            { role: 'subject', kinds: ['person'] },
+            { role: 'verb' },
+            { role: 'indirectObject', kinds: ['person'] },
+            { role: 'directObject', kinds: ['animal'] },
+        ],
+        pattern: '{subject} {verb} {directObject} to {indirectObject}',
+    },
+    {
+        name: 'the X of the Y came from Z',
+        verb: 'cuman',
+        english: { thirdSingular: 'comes', plural: 'come', past: 'came' },
+        tenses: ['past'],
+        slots: [
+            { role: 'subject', kinds: ['person'], possessor: ['person'] },
+            { role: 'verb' },
+            {
+                role: 'prepositionalPhrase',
+                preposition: 'fram',
+                caseGram: 'dative',
+                kinds: ['person', 'place'],
+            },
+        ],
+        pattern: '{subject} {verb} from {prepositionalPhrase}',
+    },
+    {
+        name: 'X finds Y',
+        verb: 'findan',
+        english: { thirdSingular: 'finds', plural: 'find', past: 'found' },
+        tenses: ['present', 'past'],
+        slots: [
+            { role: 'subject', kinds: ['person'] },
+            { role: 'verb' },
+            { role: 'directObject', kinds: ['animal'] },
+        ],
+        pattern: '{subject} {verb} {directObject}',
+    },
+    {
+        name: 'X heals Y',
+        verb: 'hǣlan',
+        english: { thirdSingular: 'heals', plural: 'heal', past: 'healed' },
+        tenses: ['present', 'past'],
+        slots: [
+            { role: 'subject', kinds: ['person'] },
+            { role: 'verb' },
+            { role: 'directObject', kinds: ['person', 'animal'] },
+        ],
+        pattern: '{subject} {verb} {directObject}',
+    },
+    {
+        name: 'X goes to Y',
+        verb: 'gān',
+        english: { thirdSingular: 'goes', plural: 'go', past: 'went' },
+        tenses: ['present', 'past'],
+        slots: [
+            { role: 'subject', kinds: ['person', 'animal'] },
+            { role: 'verb' },
+            {
+                role: 'prepositionalPhrase',
+                preposition: 'tō',
+                caseGram: 'dative',
+                kinds: ['place'],
+            },
+        ],
+        pattern: '{subject} {verb} to {prepositionalPhrase}',
+    },
+    {
+        name: 'X goes through Y',
+        verb: 'gān',
+        english: { thirdSingular: 'goes', plural: 'go', past: 'went' },
+        tenses: ['present', 'past'],
+        slots: [
+            { role: 'subject', kinds: ['person', 'animal'] },
+            { role: 'verb' },
+            {
+                role: 'prepositionalPhrase',
+                preposition: 'þurh',
+                caseGram: 'accusative',
+                kinds: ['place'],
+            },
+        ],
+        pattern: '{subject} {verb} through {prepositionalPhrase}',
+    },
+]
+
+/** Nouns only come in the singular and the plural. */
+const NUMBERS: GrammaticalNumber[] = ['singular', 'plural']
+
+const CASE_OF_ROLE: Record<NounSlot['role'], GrammaticalCase> = {
+    subject: 'nominative',
+    directObject: 'accusative',
+    indirectObject: 'dative',
+}
+
+type GeneratorPack = Pick<LessonPack, 'lexicon' | 'glossary' | 'kinds'>
+
+/** The templates whose verb and nouns the pack has. */
+export function templatesFor(
+    pack: GeneratorPack,
+    templates = TEMPLATES
+): ScenarioTemplate[] {
+    return templates.filter(
+        (template) =>
+            !!verbOf(pack, template.verb) &&
+            !!assignNouns(nounsOf(pack), kindsOf(template))
+    )
+}
+
+/**
+ * A scenario nobody wrote: a template of the pack's filled with nouns of
+ * the right kinds, each in a number of its own, and the verb in a tense of
+ * the template's. The translation and the hint come with it.
+ *
+ * @throws If the pack can't fill any template.
+ */
+export function generateScenario(
+    pack: GeneratorPack,
+    random: SeededRandom,
+    id: number
+): Scenario {
+    const templates = templatesFor(pack)
+    if (!templates.length) {
+        throw new Error('The lexicon has too few words to make up sentences.')
+    }
+    return fillTemplate(pack, random.pick(templates), random, id)
+}
+
+/**
+ * @throws If the pack doesn't have the template's verb, or enough nouns of
+ * the kinds it needs.
+ */
+export function fillTemplate(
+    pack: GeneratorPack,
+    template: ScenarioTemplate,
+    random: SeededRandom,
+    id: number
+): Scenario {
+    const conjugations = verbOf(pack, template.verb)
+    if (!conjugations) {
+        throw new Error(`"${template.verb}" is not in the lexicon.`)
+    }
+    const assigned = assignNouns(nounsOf(pack), kindsOf(template), (nouns) =>
+        random.shuffle(nouns)
+    )
+    if (!assigned) {
+        throw new Error(`The lexicon has too few nouns for "${template.name}".`)
+    }
+    // In the order of `kindsOf`, which is the order they are asked for.
+    let picked = 0
+    const pickNoun = () => assigned[picked++]
+
+    const tense = random.pick(template.tenses)
+    // The verb agrees with it, wherever the subject comes.
+    const subjectNumber = random.pick(NUMBERS)
+    const phrases: Record<string, string> = {
+        verb:
+            tense === 'past'
+                ? template.english.past
+                : subjectNumber === 'singular'
+                  ? template.english.thirdSingular
+                  : template.english.plural,
+    }
+    const hints: string[] = []
+    const constituents: Constituent[] = []
+
+    for (const slot of template.slots) {
+        if (slot.role === 'verb') {
+            constituents.push({
+                role: 'verb',
+                words: [
+                    new VerbConjugated({
+                        conjugations,
+                        person: 'third',
+                        number: subjectNumber,
+                        tense,
+                        mood: 'indicative',
+                    }),
+                ],
+            })
+            continue
+        }
+        const { noun, kind } = pickNoun()
+        const number =
+            slot.role === 'subject' ? subjectNumber : random.pick(NUMBERS)
+        const english = englishOf(pack, noun, number)
+        if (slot.role === 'prepositionalPhrase') {
+            const preposition = PREPOSITIONS[slot.preposition]
+            constituents.push({
+                role: slot.role,
+                words: [
+                    new PrepositionGoverning({
+                        preposition,
+                        caseGram: slot.caseGram,
+                    }),
+                    ...nounPhrase(noun, slot.caseGram, number),
+                ],
+            })
+            phrases[slot.role] = `the ${english}`
+            hints.push(`'${slot.preposition}' takes the ${slot.caseGram}.`)
+            continue
+        }
+
+        const caseGram = CASE_OF_ROLE[slot.role]
+        const owner = slot.possessor && {
+            noun: pickNoun().noun,
+            number: random.pick(NUMBERS),
+        }
+        constituents.push({
+            role: slot.role,
+            // The possessor takes the place of the determiner.
+            words: owner
+                ? [new NounDeclined({ declinations: noun, caseGram, number })]
+                : nounPhrase(noun, caseGram, number),
+            possessor:
+                owner && nounPhrase(owner.noun, 'genitive', owner.number),
+        })
+        phrases[slot.role] = owner
+            ? `the ${possessive(englishOf(pack, owner.noun, owner.number), owner.number)} ${english}`
+            : `the ${english}`
+        if (owner) {
+            hints.push('Whose? (genitive)')
+        }
+        hints.push(hintFor(slot.role, kind, template, tense))
+    }
+
+    const translation = template.pattern.replace(
+        /\{(\w+)\}/g,
+        (_, role: string) => phrases[role] ?? ''
+    )
+    return {
+        id,
+        modernTranslation: `${translation[0].toUpperCase()}${translation.slice(1)}.`,
+        hint: hints.join(' '),
+        clause: { type: 'main', constituents },
+    }
+}
+
+/** The kinds of noun a template needs, one list per noun. */
+function kindsOf(template: ScenarioTemplate): NounKind[][] {
+    return template.slots.flatMap((slot) => {
+        if (slot.role === 'verb') {
+            return []
+        }
+        return 'possessor' in slot && slot.possessor
+            ? [slot.kinds, slot.possessor]
+            : [slot.kinds]
+    })
+}
+
+interface PackNoun {
+    noun: DeclinationOfNoun<string>
+    kind: NounKind
+}
+
+/**
+ * A different noun for each list of kinds, or undefined if there are too
+ * few. Backtracks, so a noun that fits an early list is kept for a later
+ * one that only it fits. `order` decides which candidates are tried first.
+ */
+function assignNouns(
+    candidates: PackNoun[],
+    kinds: NounKind[][],
+    order: (nouns: PackNoun[]) => PackNoun[] = (nouns) => nouns
+): PackNoun[] | undefined {
+    const [first, ...rest] = kinds
+    if (!first) {
+        return []
+    }
+    for (const candidate of order(
+        candidates.filter(({ kind }) => first.includes(kind))
+    )) {
+        // Every noun of a sentence is a different one.
+        const others = assignNouns(
+            candidates.filter(
+                ({ noun }) => noun.base.value !== candidate.noun.base.value
+            ),
+            rest,
+            order
+        )
+        if (others) {
+            return [candidate, ...others]
+        }
+    }
+    return undefined
+}
+
+function verbOf(pack: GeneratorPack, infinitive: string) {
+    return pack.lexicon.verbs.find(
+        (verb) => verb.infinitive.value === infinitive
+    )
+}
+
+function nounsOf(pack: GeneratorPack): PackNoun[] {
+    return pack.lexicon.nouns.flatMap((noun) => {
+        const kind = pack.kinds[noun.base.value]
+        return kind ? [{ noun, kind }] : []
+    })
+}
+
+/** `se cyning`, `þǣm biscopum`… */
+function nounPhrase(
+    noun: DeclinationOfNoun<string>,
+    caseGram: GrammaticalCase,
+    number: GrammaticalNumber
+): Sentence {
+    return [
+        new DemonstrativeDeclined({
+            declinations: DEMONSTRATIVES.se,
+            gender: noun.gender,
+            caseGram,
+            number,
+        }),
+        new NounDeclined({ declinations: noun, caseGram, number }),
+    ]
+}
+
+/** The first meaning of the gloss, in the plural if need be. */
+function englishOf(
+    pack: GeneratorPack,
+    noun: DeclinationOfNoun<string>,
+    number: GrammaticalNumber
+) {
+    const word = (pack.glossary[noun.base.value] ?? noun.base.value)
+        .split(',')[0]
+        .trim()
+    if (number === 'singular') {
+        return word
+    }
+    if (/(s|x|ch|sh)$/.test(word)) {
+        return `${word}es`
+    }
+    if (/[^aeiou]y$/.test(word)) {
+        return `${word.slice(0, -1)}ies`
+    }
+    return `${word}s`
+}
+
+/** `bishop's`, `bishops'` */
+function possessive(english: string, number: GrammaticalNumber) {
+    return number === 'plural' && english.endsWith('s')
+        ? `${english}'`
+        : `${english}'s`
+}
+
+function hintFor(
+    role: NounSlot['role'],
+    kind: NounKind,
+    template: ScenarioTemplate,
+    tense: Tense
+) {
+    const verb =
+        tense === 'past'
+            ? template.english.past
+            : template.english.thirdSingular
+    const whom = kind === 'person' ? 'whom' : 'what'
+    switch (role) {
+        case 'subject':
+            return `Who ${verb}? (nominative)`
+        case 'directObject':
+            return `${verb[0].toUpperCase()}${verb.slice(1)} ${whom}? (accusative)`
+        case 'indirectObject':
+            return `To ${whom}? (dative)`
+    }
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { chickenPlucking, type ChickenPluckingState } from './chickenPlucking'
+import { MiniGameSession, type MiniGameInput } from './miniGame'
+
+type Session = MiniGameSession<ChickenPluckingState>
+
+/** A click on the first calm chicken that still has feathers to give. */
+function pluck({ state }: Session): MiniGameInput[] {
+    const chicken = state.chickens.find(
+        ({ mood, feathers }) => mood === 'calm' && feathers < 2
+    )
+    return chicken ? [{ type: 'pointerDown', x: chicken.x, y: chicken.y }] : []
+}
+
+/** Plays to the end, recording the inputs of every step. */
+function play(seed: number, player: (session: Session) => MiniGameInput[]) {
+    const session = new MiniGameSession(chickenPlucking, seed)
+    const recording: MiniGameInput[][] = []
+    while (!session.outcome) {
+        const inputs = player(session)
+        recording.push(inputs)
+        session.step(inputs)
+    }
+    return { session, recording }
+}
+
+function replay(seed: number, recording: MiniGameInput[][]) {
+    const session = new MiniGameSession(chickenPlucking, seed)
+    for (const inputs of recording) {
+        session.step(inputs)
+    }
+    return session
+}
+
+describe('chicken plucking', () => {
+    it('places the chickens by the seed', () => {
+        const first = new MiniGameSession(chickenPlucking, 7)
+        expect(new MiniGameSession(chickenPlucking, 7).state).toEqual(
+            first.state
+        )
+        expect(new MiniGameSession(chickenPlucking, 8).state).not.toEqual(
+            first.state
+        )
+    })
+
+    it('is won by plucking only calm chickens', () => {
+        const { session } = play(7, pluck)
+        expect(session.outcome).toMatchObject({ result: 'won' })
+        expect(session.state.lives).toBe(3)
+    })
+
+    it('replays a recorded game step for step', () => {
+        for (const seed of [1, 7, 2024]) {
+            const { session, recording } = play(seed, pluck)
+            const replayed = replay(seed, recording)
+            expect(replayed.tick).toBe(session.tick)
+            expect(replayed.state).toEqual(session.state)
+            expect(replayed.outcome).toEqual(session.outcome)
+        }
+    })
+
+    it('costs a life to touch a chicken that is not calm', () => {
+        const session = new MiniGameSession(chickenPlucking, 7)
+        const [chicken] = session.state.chickens
+        const click: MiniGameInput = {
+            type: 'pointerDown',
+            x: chicken.x,
+            y: chicken.y,
+        }
+        session.step([click])
+        expect(session.state.chickens[0]).toMatchObject({
+            feathers: 1,
+            mood: 'alert',
+        })
+        session.step([click])
+        expect(session.state.lives).toBe(2)
+        expect(session.state.chickens[0].feathers).toBe(1)
+    })
+
+    it('is lost when the time runs out', () => {
+        const { session } = play(7, () => [])
+        expect(session.outcome).toEqual({ result: 'lost', score: 0 })
+        expect(session.tick * chickenPlucking.step).toBe(30_000)
+    })
+})
+
+describe('MiniGameSession', () => {
+    it('runs the same steps however real time is sliced', () => {
+        const stepped = new MiniGameSession(chickenPlucking, 3)
+        for (let step = 0; step < 10; step++) {
+            stepped.step()
+        }
+        const advanced = new MiniGameSession(chickenPlucking, 3)
+        for (const elapsed of [7, 33, 0, 45, 115]) {
+            advanced.advance(elapsed)
+        }
+        expect(advanced.tick).toBe(10)
+        expect(advanced.state).toEqual(stepped.state)
+    })
+
+    it('catches up on no more than a quarter of a second at once', () => {
+        const session = new MiniGameSession(chickenPlucking, 3)
+        session.advance(60_000)
+        expect(session.tick).toBe(Math.floor(250 / chickenPlucking.step))
+    })
+
+    it('does not step a game that is over', () => {
+        const { session } = play(7, () => [])
+        const { tick, state } = session
+        session.step()
+        session.advance(200)
+        expect(session.tick).toBe(tick)
+        expect(session.state).toBe(state)
+    })
+})
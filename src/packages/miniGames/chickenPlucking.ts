@@ -0,0 +1,238 @@
+import type { SeededRandom } from '../random/seededRandom'
+import type { MiniGame } from './miniGame'
+
+type Mood = 'calm' | 'alert' | 'pecking'
+
+interface Chicken {
+    x: number
+    y: number
+    /** Units per step. */
+    vx: number
+    vy: number
+    mood: Mood
+    /** Steps until the mood changes. */
+    moodTicks: number
+    /** Feathers plucked from this chicken so far. */
+    feathers: number
+}
+
+export interface ChickenPluckingState {
+    tick: number
+    chickens: Chicken[]
+    lives: number
+    /** Steps left of the red flash after a peck. */
+    peckFlash: number
+}
+
+const WIDTH = 480
+const HEIGHT = 320
+const STEP = 20
+const CHICKENS = 3
+const FEATHERS_NEEDED = 2
+const LIVES = 3
+const TIME_LIMIT = 30_000
+const RADIUS = 22
+/** Calm chickens wander; alert and pecking ones stand still. */
+const SPEED = { min: 0.6, max: 1.4 }
+/** Mood lengths in steps. */
+const CALM = { min: 60, max: 150 }
+const ALERT = 25
+const PECKING = 40
+const PECK_FLASH = 15
+
+const secondsLeft = (tick: number) =>
+    Math.max(0, Math.ceil((TIME_LIMIT - tick * STEP) / 1000))
+
+function wander(random: SeededRandom) {
+    const angle = random.between(0, 2 * Math.PI)
+    const speed = random.between(SPEED.min, SPEED.max)
+    return { vx: Math.cos(angle) * speed, vy: Math.sin(angle) * speed }
+}
+
+function calmTicks(random: SeededRandom) {
+    return Math.round(random.between(CALM.min, CALM.max))
+}
+
+/** The chicken drawn on top under the point, if any. */
+function chickenAt(chickens: Chicken[], x: number, y: number) {
+    for (let index = chickens.length - 1; index >= 0; index--) {
+        const chicken = chickens[index]
+        if (Math.hypot(chicken.x - x, chicken.y - y) <= RADIUS + 4) {
+            return index
+        }
+    }
+    return undefined
+}
+
+/**
+ * The README's skill test: pluck sample feathers from each chicken without
+ * getting pecked. A calm chicken can be plucked, but every pluck startles
+ * it, and an alert or pecking one pecks back. Watch for the "!".
+ */
+export const chickenPlucking: MiniGame<ChickenPluckingState> = {
+    id: 'chicken-plucking',
+    title: 'Chicken plucking',
+    instructions: `Click a calm chicken to pluck a feather. Get ${FEATHERS_NEEDED} from each of the ${CHICKENS} chickens in ${TIME_LIMIT / 1000} seconds. A chicken with a "!" over it is about to peck, so leave it alone.`,
+    width: WIDTH,
+    height: HEIGHT,
+    step: STEP,
+
+    init(random) {
+        return {
+            tick: 0,
+            lives: LIVES,
+            peckFlash: 0,
+            chickens: Array.from({ length: CHICKENS }, () => ({
+                x: random.between(RADIUS, WIDTH - RADIUS),
+                y: random.between(RADIUS + 30, HEIGHT - RADIUS),
+                ...wander(random),
+                mood: 'calm' as const,
+                moodTicks: calmTicks(random),
+                feathers: 0,
+            })),
+        }
+    },
+
+    update(state, inputs, random) {
+        const chickens = state.chickens.map((chicken) => ({ ...chicken }))
+        let { lives, peckFlash } = state
+        peckFlash = Math.max(0, peckFlash - 1)
+
+        for (const input of inputs) {
+            if (input.type !== 'pointerDown') {
+                continue
+            }
+            const index = chickenAt(chickens, input.x, input.y)
+            if (index === undefined) {
+                continue
+            }
+            const chicken = chickens[index]
+            if (chicken.mood !== 'calm') {
+                lives--
+                peckFlash = PECK_FLASH
+            } else if (chicken.feathers < FEATHERS_NEEDED) {
+                chicken.feathers++
+                chicken.mood = 'alert'
+                chicken.moodTicks = ALERT
+            }
+        }
+
+        for (const chicken of chickens) {
+            chicken.moodTicks--
+            if (chicken.moodTicks <= 0) {
+                if (chicken.mood === 'calm') {
+                    chicken.mood = 'alert'
+                    chicken.moodTicks = ALERT
+                } else if (chicken.mood === 'alert') {
+                    chicken.mood = 'pecking'
+                    chicken.moodTicks = PECKING
+                } else {
+                    chicken.mood = 'calm'
+                    chicken.moodTicks = calmTicks(random)
+                    Object.assign(chicken, wander(random))
+                }
+            }
+            if (chicken.mood !== 'calm') {
+                continue
+            }
+            chicken.x += chicken.vx
+            chicken.y += chicken.vy
+            if (chicken.x < RADIUS || chicken.x > WIDTH - RADIUS) {
+                chicken.vx = -chicken.vx
+                chicken.x = Math.min(
+                    Math.max(chicken.x, RADIUS),
+                    WIDTH - RADIUS
+                )
+            }
+            if (chicken.y < RADIUS + 30 || chicken.y > HEIGHT - RADIUS) {
+                chicken.vy = -chicken.vy
+                chicken.y = Math.min(
+                    Math.max(chicken.y, RADIUS + 30),
+                    HEIGHT - RADIUS
+                )
+            }
+        }
+
+        return { tick: state.tick + 1, chickens, lives, peckFlash }
+    },
+
+    render(state, context) {
+        context.fillStyle = state.peckFlash ? '#e8a0a0' : '#a3c770'
+        context.fillRect(0, 0, WIDTH, HEIGHT)
+
+        for (const chicken of state.chickens) {
+            const { x, y, mood } = chicken
+            context.fillStyle = '#fdfaf2'
+            context.beginPath()
+            context.ellipse(x, y, RADIUS, RADIUS * 0.8, 0, 0, 2 * Math.PI)
+            context.fill()
+            context.beginPath()
+            context.arc(
+                x + RADIUS * 0.7,
+                y - RADIUS * 0.6,
+                RADIUS * 0.45,
+                0,
+                2 * Math.PI
+            )
+            context.fill()
+            context.fillStyle = '#c0392b'
+            context.fillRect(
+                x + RADIUS * 0.5,
+                y - RADIUS * 1.15,
+                RADIUS * 0.4,
+                RADIUS * 0.25
+            )
+            context.fillStyle = mood === 'pecking' ? '#c0392b' : '#e67e22'
+            context.beginPath()
+            context.moveTo(x + RADIUS * 1.1, y - RADIUS * 0.7)
+            context.lineTo(
+                x + RADIUS * (mood === 'pecking' ? 1.7 : 1.4),
+                y - RADIUS * 0.55
+            )
+            context.lineTo(x + RADIUS * 1.1, y - RADIUS * 0.4)
+            context.fill()
+
+            context.fillStyle = '#333'
+            context.font = '14px serif'
+            context.textAlign = 'center'
+            context.fillText(
+                `${chicken.feathers}/${FEATHERS_NEEDED}`,
+                x,
+                y + RADIUS + 14
+            )
+            if (mood !== 'calm') {
+                context.fillStyle = '#c0392b'
+                context.font = 'bold 20px serif'
+                context.fillText('!', x + RADIUS * 0.7, y - RADIUS * 1.3)
+            }
+        }
+
+        const plucked = state.chickens.reduce(
+            (sum, chicken) => sum + chicken.feathers,
+            0
+        )
+        context.fillStyle = '#333'
+        context.font = '16px serif'
+        context.textAlign = 'left'
+        context.fillText(
+            `Feathers ${plucked}/${CHICKENS * FEATHERS_NEEDED}   Lives ${'♥'.repeat(state.lives)}   Time ${secondsLeft(state.tick)}`,
+            8,
+            20
+        )
+    },
+
+    outcome(state) {
+        const score = state.lives * 100 + secondsLeft(state.tick) * 10
+        if (
+            state.chickens.every(
+                (chicken) => chicken.feathers >= FEATHERS_NEEDED
+            )
+        ) {
+            return { result: 'won', score }
+        }
+        if (state.lives <= 0 || state.tick * STEP >= TIME_LIMIT) {
+            return { result: 'lost', score: 0 }
+        }
+        return undefined
+    },
+}
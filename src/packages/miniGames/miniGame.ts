@@ -0,0 +1,98 @@
+import { SeededRandom } from '../random/seededRandom'
+
+export type MiniGameInput =
+    | {
+          type: 'pointerDown' | 'pointerMove' | 'pointerUp'
+          x: number
+          y: number
+      }
+    | { type: 'keyDown' | 'keyUp'; key: string }
+
+export interface MiniGameOutcome {
+    result: 'won' | 'lost'
+    score: number
+}
+
+/**
+ * A skill test. The game itself is only data and pure functions: all state
+ * lives in `State`, time only moves in fixed steps, and every random choice
+ * comes from the `SeededRandom` it is handed. Played twice with the same
+ * seed and the same inputs on the same steps, it ends the same way, which
+ * is what lets `MiniGameSession` run it headless in Node.
+ */
+export interface MiniGame<State> {
+    id: string
+    title: string
+    instructions: string
+    /** Canvas size in game units; input coordinates use the same ones. */
+    width: number
+    height: number
+    /** Milliseconds of game time per `update`. */
+    step: number
+    init(random: SeededRandom): State
+    /** One step of game time, with the inputs that arrived since the last. */
+    update(state: State, inputs: MiniGameInput[], random: SeededRandom): State
+    render(state: State, context: CanvasRenderingContext2D): void
+    /** Once the game is over; `update` is not called after that. */
+    outcome(state: State): MiniGameOutcome | undefined
+}
+
+/** Longest stretch of real time one `advance` catches up on, e.g. after a background tab. */
+const MAX_CATCH_UP = 250
+
+/**
+ * Runs a mini-game in fixed steps. The host feeds it real elapsed time with
+ * `advance`; a test calls `step` directly and needs no clock at all.
+ */
+export class MiniGameSession<State> {
+    #game: MiniGame<State>
+    #random: SeededRandom
+    #state: State
+    #tick = 0
+    #pending: MiniGameInput[] = []
+    #accumulated = 0
+
+    constructor(game: MiniGame<State>, seed: number) {
+        this.#game = game
+        this.#random = new SeededRandom(seed)
+        this.#state = game.init(this.#random)
+    }
+
+    get state() {
+        return this.#state
+    }
+
+    /** Steps played so far. */
+    get tick() {
+        return this.#tick
+    }
+
+    get outcome() {
+        return this.#game.outcome(this.#state)
+    }
+
+    /** One step with `inputs` and any queued by `advance`. Does nothing once the game is over. */
+    step(inputs: MiniGameInput[] = []) {
+        if (this.outcome) {
+            return
+        }
+        const stepInputs = [...this.#pending, ...inputs]
+        this.#pending = []
+        this.#state = this.#game.update(this.#state, stepInputs, this.#random)
+        this.#tick++
+    }
+
+    /**
+     * Runs as many steps as fit in `elapsed` milliseconds plus what was left
+     * over last time. Inputs wait for the next step, even if that is in a
+     * later call.
+     */
+    advance(elapsed: number, inputs: MiniGameInput[] = []) {
+        this.#pending.push(...inputs)
+        this.#accumulated += Math.min(elapsed, MAX_CATCH_UP)
+        while (this.#accumulated >= this.#game.step && !this.outcome) {
+            this.#accumulated -= this.#game.step
+            this.step()
+        }
+    }
+}
@@ -0,0 +1,94 @@
+import { useState } from 'react'
+import type { GameProps } from '../hub/game'
+import { hashSeed } from '../random/seededRandom'
+import type { MiniGameOutcome } from './miniGame'
+import MiniGameHost from './miniGameHost'
+import { MINI_GAMES } from './miniGames'
+
+/**
+ * The missions' skill tests, to play for their own sake: a list of them,
+ * and each at `<mini-game id>`. Every try has its own seed from the
+ * session's, so a replayed session replays the same games.
+ */
+export default function MiniGameArcade({
+    sessionSeed,
+    path: [gameId],
+    onNavigate,
+}: GameProps) {
+    const game = gameId === undefined ? undefined : MINI_GAMES.get(gameId)
+    /** Tries of this game so far, this visit. */
+    const [tries, setTries] = useState(0)
+    const [outcome, setOutcome] = useState<MiniGameOutcome>()
+
+    const playAgain = () => {
+        setTries(tries + 1)
+        setOutcome(undefined)
+    }
+
+    const open = (path: string[]) => {
+        setOutcome(undefined)
+        onNavigate(path)
+    }
+
+    if (!game) {
+        return (
+            <div className="space-y-2">
+                {gameId !== undefined && (
+                    <p>There is no mini-game called "{gameId}".</p>
+                )}
+                <ul className="space-y-2">
+                    {[...MINI_GAMES.values()].map(
+                        ({ id, title, instructions }) => (
+                            <li
+                                key={id}
+                                className="p-4 rounded flex justify-between items-center gap-4 bg-amber-100"
+                            >
+                                <div>
+                                    <h3 className="font-bold">{title}</h3>
+                                    <p className="text-sm">{instructions}</p>
+                                </div>
+                                <button
+                                    onClick={() => open([id])}
+                                    className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                                >
+                                    Play
+                                </button>
+                            </li>
+                        )
+                    )}
+                </ul>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <button onClick={() => open([])} className="text-sm underline">
+                All mini-games
+            </button>
+            <MiniGameHost
+                key={`${game.id}-${tries}`}
+                game={game}
+                seed={hashSeed(`${sessionSeed}:${game.id}:${tries}`)}
+                onFinish={setOutcome}
+            />
+            {outcome && (
+                <div
+                    className={`p-4 rounded ${
+                        outcome.result === 'won' ? 'bg-green-100' : 'bg-red-100'
+                    }`}
+                >
+                    {outcome.result === 'won'
+                        ? `Well done! You scored ${outcome.score}.`
+                        : 'Not this time.'}{' '}
+                    <button
+                        onClick={playAgain}
+                        className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Play again
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
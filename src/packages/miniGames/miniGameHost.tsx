@@ -0,0 +1,106 @@
+import { useEffect, useRef } from 'react'
+import {
+    MiniGameSession,
+    type MiniGame,
+    type MiniGameInput,
+    type MiniGameOutcome,
+} from './miniGame'
+
+interface MiniGameHostProps<State> {
+    game: MiniGame<State>
+    seed: number
+    /** Once, when the game is won or lost. */
+    onFinish: (outcome: MiniGameOutcome) => void
+}
+
+/**
+ * Mounts a mini-game on a canvas: turns pointer and key events into game
+ * inputs, runs the game in real time and draws every frame. Give it a new
+ * `key` to play again.
+ */
+export default function MiniGameHost<State>({
+    game,
+    seed,
+    onFinish,
+}: MiniGameHostProps<State>) {
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+    // The loop outlives renders, so it reads the latest callback from here.
+    const onFinishRef = useRef(onFinish)
+    useEffect(() => {
+        onFinishRef.current = onFinish
+    })
+
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const context = canvas?.getContext('2d')
+        if (!canvas || !context) {
+            return
+        }
+        const session = new MiniGameSession(game, seed)
+        const inputs: MiniGameInput[] = []
+
+        const handlePointer =
+            (type: 'pointerDown' | 'pointerMove' | 'pointerUp') =>
+            (event: PointerEvent) => {
+                // The canvas may be drawn smaller than the game is wide.
+                const bounds = canvas.getBoundingClientRect()
+                inputs.push({
+                    type,
+                    x:
+                        ((event.clientX - bounds.left) / bounds.width) *
+                        game.width,
+                    y:
+                        ((event.clientY - bounds.top) / bounds.height) *
+                        game.height,
+                })
+            }
+        const handleKey =
+            (type: 'keyDown' | 'keyUp') => (event: KeyboardEvent) =>
+                inputs.push({ type, key: event.key })
+        const listeners = [
+            [canvas, 'pointerdown', handlePointer('pointerDown')],
+            [canvas, 'pointermove', handlePointer('pointerMove')],
+            [canvas, 'pointerup', handlePointer('pointerUp')],
+            [window, 'keydown', handleKey('keyDown')],
+            [window, 'keyup', handleKey('keyUp')],
+        ] as const
+        for (const [target, type, listener] of listeners) {
+            target.addEventListener(type, listener as EventListener)
+        }
+
+        let frame = 0
+        let last = performance.now()
+        const loop = (now: number) => {
+            session.advance(now - last, inputs.splice(0))
+            last = now
+            game.render(session.state, context)
+            const outcome = session.outcome
+            if (outcome) {
+                onFinishRef.current(outcome)
+                return
+            }
+            frame = requestAnimationFrame(loop)
+        }
+        frame = requestAnimationFrame(loop)
+
+        return () => {
+            cancelAnimationFrame(frame)
+            for (const [target, type, listener] of listeners) {
+                target.removeEventListener(type, listener as EventListener)
+            }
+        }
+    }, [game, seed])
+
+    return (
+        <div className="space-y-2">
+            <h3 className="font-bold">{game.title}</h3>
+            <p className="text-sm">{game.instructions}</p>
+            <canvas
+                ref={canvasRef}
+                width={game.width}
+                height={game.height}
+                className="w-full max-w-xl rounded border touch-none"
+            />
+        </div>
+    )
+}
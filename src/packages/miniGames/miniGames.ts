@@ -0,0 +1,10 @@
+import { chickenPlucking } from './chickenPlucking'
+import type { MiniGame } from './miniGame'
+
+/**
+ * Every mini-game a mission stage can name, by id. A new game only has to
+ * be added here for lesson packs to use it.
+ */
+export const MINI_GAMES = new Map<string, MiniGame<unknown>>([
+    [chickenPlucking.id, chickenPlucking as MiniGame<unknown>],
+])
@@ -0,0 +1,79 @@
+import type { Mission } from '../lessons/lessonPack'
+
+export type MissionStatus = 'locked' | 'available' | 'completed'
+
+/** A mission opens once every one of its prerequisites is completed. */
+export function missionStatus(
+    mission: Mission,
+    completedMissions: string[]
+): MissionStatus {
+    if (completedMissions.includes(mission.id)) {
+        return 'completed'
+    }
+    return mission.prerequisites.every((id) => completedMissions.includes(id))
+        ? 'available'
+        : 'locked'
+}
+
+/** The missions that have `id` among their prerequisites. */
+export function unlocksOf(missions: Mission[], id: string): Mission[] {
+    return missions.filter((mission) => mission.prerequisites.includes(id))
+}
+
+/**
+ * The missions that finishing `id` opens: those it unlocks whose other
+ * prerequisites are already done. Empty when replaying a finished mission.
+ */
+export function newlyAvailable(
+    missions: Mission[],
+    completedMissions: string[],
+    id: string
+): Mission[] {
+    if (completedMissions.includes(id)) {
+        return []
+    }
+    const completed = [...completedMissions, id]
+    return unlocksOf(missions, id).filter(
+        (mission) => missionStatus(mission, completed) === 'available'
+    )
+}
+
+/**
+ * A chain of mission ids whose prerequisites lead back to the first one,
+ * e.g. `['a', 'b', 'a']`, or `undefined` if the campaign has none. Missions
+ * on a cycle could never be opened.
+ */
+export function findPrerequisiteCycle(
+    missions: Array<Pick<Mission, 'id' | 'prerequisites'>>
+): string[] | undefined {
+    const prerequisitesOf = new Map(
+        missions.map(({ id, prerequisites }) => [id, prerequisites])
+    )
+    const done = new Set<string>()
+
+    const visit = (id: string, path: string[]): string[] | undefined => {
+        const start = path.indexOf(id)
+        if (start !== -1) {
+            return [...path.slice(start), id]
+        }
+        if (done.has(id)) {
+            return undefined
+        }
+        for (const prerequisite of prerequisitesOf.get(id) ?? []) {
+            const cycle = visit(prerequisite, [...path, id])
+            if (cycle) {
+                return cycle
+            }
+        }
+        done.add(id)
+        return undefined
+    }
+
+    for (const { id } of missions) {
+        const cycle = visit(id, [])
+        if (cycle) {
+            return cycle
+        }
+    }
+    return undefined
+}
@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import type { ChoiceTestStage } from '../lessons/lessonPack'
+
+interface ChoiceTestProps {
+    stage: ChoiceTestStage
+    onPass: () => void
+}
+
+/**
+ * A question with fixed answers. A wrong pick explains itself and the
+ * learner tries again; a right one lets them go on.
+ */
+export default function ChoiceTest({ stage, onPass }: ChoiceTestProps) {
+    const [picked, setPicked] = useState<number>()
+    const option = picked === undefined ? undefined : stage.options[picked]
+
+    return (
+        <div className="space-y-4">
+            <p className="font-bold">{stage.question}</p>
+            <div className="flex flex-col gap-2">
+                {stage.options.map((choice, index) => (
+                    <button
+                        key={index}
+                        onClick={() => setPicked(index)}
+                        disabled={option?.isCorrect}
+                        className={`px-3 py-2 rounded text-left ${
+                            index === picked
+                                ? choice.isCorrect
+                                    ? 'bg-green-100'
+                                    : 'bg-red-100'
+                                : 'bg-amber-100 hover:bg-amber-200'
+                        }`}
+                    >
+                        {choice.text}
+                    </button>
+                ))}
+            </div>
+            {option && (
+                <div
+                    className={`p-4 rounded ${
+                        option.isCorrect ? 'bg-green-100' : 'bg-red-100'
+                    }`}
+                >
+                    {option.explanation ??
+                        (option.isCorrect ? 'Correct!' : 'Try again!')}
+                </div>
+            )}
+            {option?.isCorrect && (
+                <button
+                    onClick={onPass}
+                    className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                >
+                    Continue
+                </button>
+            )}
+        </div>
+    )
+}
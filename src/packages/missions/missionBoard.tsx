@@ -0,0 +1,71 @@
+import type { Mission } from '../lessons/lessonPack'
+import { missionStatus, type MissionStatus } from './campaign'
+
+interface MissionBoardProps {
+    missions: Mission[]
+    completedMissions: string[]
+    onStart: (mission: Mission) => void
+}
+
+const STATUS_STYLES: Record<MissionStatus, string> = {
+    locked: 'bg-gray-100/50 text-gray-500',
+    available: 'bg-amber-100',
+    completed: 'bg-green-100',
+}
+
+/**
+ * Every mission of the campaign: the open ones can be started, finished
+ * ones replayed, and locked ones say which missions open them.
+ */
+export default function MissionBoard({
+    missions,
+    completedMissions,
+    onStart,
+}: MissionBoardProps) {
+    const titleOf = (id: string) =>
+        missions.find((mission) => mission.id === id)?.title ?? id
+
+    return (
+        <ul className="space-y-2">
+            {missions.map((mission) => {
+                const status = missionStatus(mission, completedMissions)
+                return (
+                    <li
+                        key={mission.id}
+                        className={`p-4 rounded flex justify-between items-center gap-4 ${STATUS_STYLES[status]}`}
+                    >
+                        <div>
+                            <h3 className="font-bold">
+                                {mission.title}
+                                {status === 'completed' && ' ✓'}
+                            </h3>
+                            {status === 'locked' ? (
+                                <p className="text-sm">
+                                    Finish{' '}
+                                    {mission.prerequisites
+                                        .filter(
+                                            (id) =>
+                                                !completedMissions.includes(id)
+                                        )
+                                        .map(titleOf)
+                                        .join(' and ')}{' '}
+                                    first.
+                                </p>
+                            ) : (
+                                <p className="text-sm">{mission.briefing}</p>
+                            )}
+                        </div>
+                        {status !== 'locked' && (
+                            <button
+                                onClick={() => onStart(mission)}
+                                className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600 shrink-0"
+                            >
+                                {status === 'completed' ? 'Replay' : 'Start'}
+                            </button>
+                        )}
+                    </li>
+                )
+            })}
+        </ul>
+    )
+}
@@ -0,0 +1,228 @@
+import { useState } from 'react'
+import CaseExercise, { type ExerciseTools } from '../exercises/caseExercise'
+import type { Diagnosis } from '../grammar/diagnosis'
+import type { Sentence } from '../grammar/sentence'
+import type { Mission, MissionStage, Scenario } from '../lessons/lessonPack'
+import type { MiniGameOutcome } from '../miniGames/miniGame'
+import MiniGameHost from '../miniGames/miniGameHost'
+import { MINI_GAMES } from '../miniGames/miniGames'
+import type { ProfileSettings } from '../profile/learnerProfile'
+import { hashSeed, SeededRandom } from '../random/seededRandom'
+import ChoiceTest from './choiceTest'
+
+interface MissionRunnerProps {
+    mission: Mission
+    /** Missions that finishing this one opens, announced at the end. */
+    unlocks: Mission[]
+    /** Everything random in the mission follows from it. */
+    seed: number
+    tools: ExerciseTools
+    answerMode: ProfileSettings['answerMode']
+    onAnswerModeChange: (mode: ProfileSettings['answerMode']) => void
+    /** Every checked answer of a translation stage. */
+    onCheck: (
+        scenario: Scenario,
+        diagnosis: Diagnosis,
+        answer: Sentence,
+        attempt: number
+    ) => void
+    /** Once, when the last stage is done. */
+    onComplete: () => void
+    onLeave: () => void
+}
+
+const STAGE_TITLES: Record<MissionStage['type'], string> = {
+    choiceTest: 'Knowledge test',
+    miniGame: 'Skill test',
+    translation: 'Translation',
+}
+
+/**
+ * Plays a mission from its briefing and new words, through its stages in
+ * order, to the debriefing. Each stage opens with its bit of the story.
+ */
+export default function MissionRunner({
+    mission,
+    unlocks,
+    seed,
+    tools,
+    answerMode,
+    onAnswerModeChange,
+    onCheck,
+    onComplete,
+    onLeave,
+}: MissionRunnerProps) {
+    /** -1 for the briefing, `stages.length` for the debriefing. */
+    const [stageIndex, setStageIndex] = useState(-1)
+    /** Which scenario of a translation stage is on screen. */
+    const [scenarioIndex, setScenarioIndex] = useState(0)
+    /** A fresh one for every try at a mini-game. */
+    const [gameSeed, setGameSeed] = useState(() =>
+        hashSeed(`${seed}:mini-game`)
+    )
+    const [gameOutcome, setGameOutcome] = useState<MiniGameOutcome>()
+    const stage = mission.stages[stageIndex] as MissionStage | undefined
+    // The loader only lets through mini-games that exist.
+    const miniGame =
+        stage?.type === 'miniGame' ? MINI_GAMES.get(stage.game) : undefined
+
+    const nextStage = () => {
+        if (stageIndex === mission.stages.length - 1) {
+            onComplete()
+        }
+        setStageIndex(stageIndex + 1)
+        setScenarioIndex(0)
+        setGameOutcome(undefined)
+    }
+
+    const retryGame = () => {
+        setGameSeed(new SeededRandom(gameSeed).integer(2 ** 32))
+        setGameOutcome(undefined)
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex justify-between items-baseline">
+                <h2 className="text-xl font-bold">{mission.title}</h2>
+                <button onClick={onLeave} className="text-sm underline">
+                    Back to the missions
+                </button>
+            </div>
+
+            {stageIndex === -1 && (
+                <>
+                    <p className="initial">{mission.briefing}</p>
+                    {mission.vocabulary.length > 0 && (
+                        <div className="bg-gray-100/50 p-4 rounded">
+                            <h3 className="font-bold mb-2">New words</h3>
+                            <dl className="grid grid-cols-2 gap-x-4">
+                                {mission.vocabulary.map(
+                                    ({ lemma, meaning }) => (
+                                        <div key={lemma} className="contents">
+                                            <dt className="font-bold">
+                                                {lemma}
+                                            </dt>
+                                            <dd>{meaning}</dd>
+                                        </div>
+                                    )
+                                )}
+                            </dl>
+                        </div>
+                    )}
+                    <button
+                        onClick={nextStage}
+                        className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Set out
+                    </button>
+                </>
+            )}
+
+            {stage && (
+                <>
+                    <p className="text-sm text-gray-600">
+                        Stage {stageIndex + 1} of {mission.stages.length}:{' '}
+                        {STAGE_TITLES[stage.type]}
+                    </p>
+                    {stage.narrative && (
+                        <p className="italic">{stage.narrative}</p>
+                    )}
+                    {stage.type === 'choiceTest' && (
+                        <ChoiceTest
+                            key={stageIndex}
+                            stage={stage}
+                            onPass={nextStage}
+                        />
+                    )}
+                    {miniGame && (
+                        <div className="space-y-4">
+                            <MiniGameHost
+                                key={`${stageIndex}-${gameSeed}`}
+                                game={miniGame}
+                                seed={gameSeed}
+                                onFinish={setGameOutcome}
+                            />
+                            {gameOutcome && (
+                                <div
+                                    className={`p-4 rounded ${
+                                        gameOutcome.result === 'won'
+                                            ? 'bg-green-100'
+                                            : 'bg-red-100'
+                                    }`}
+                                >
+                                    {gameOutcome.result === 'won'
+                                        ? `Well done! You scored ${gameOutcome.score}.`
+                                        : 'Not this time.'}{' '}
+                                    <button
+                                        onClick={
+                                            gameOutcome.result === 'won'
+                                                ? nextStage
+                                                : retryGame
+                                        }
+                                        className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                                    >
+                                        {gameOutcome.result === 'won'
+                                            ? 'Continue'
+                                            : 'Try again'}
+                                    </button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {stage.type === 'translation' && (
+                        <>
+                            {stage.scenarios.length > 1 && (
+                                <p className="text-sm text-gray-600">
+                                    Sentence {scenarioIndex + 1} of{' '}
+                                    {stage.scenarios.length}
+                                </p>
+                            )}
+                            <CaseExercise
+                                key={`${stageIndex}-${scenarioIndex}`}
+                                scenario={stage.scenarios[scenarioIndex]}
+                                seed={hashSeed(
+                                    `${seed}:${stageIndex}:${scenarioIndex}`
+                                )}
+                                tools={tools}
+                                answerMode={answerMode}
+                                onAnswerModeChange={onAnswerModeChange}
+                                onCheck={(diagnosis, answer, attempt) =>
+                                    onCheck(
+                                        stage.scenarios[scenarioIndex],
+                                        diagnosis,
+                                        answer,
+                                        attempt
+                                    )
+                                }
+                                onSolved={() =>
+                                    scenarioIndex < stage.scenarios.length - 1
+                                        ? setScenarioIndex(scenarioIndex + 1)
+                                        : nextStage()
+                                }
+                            />
+                        </>
+                    )}
+                </>
+            )}
+
+            {stageIndex === mission.stages.length && (
+                <div className="text-center py-8 space-y-4">
+                    <h2 className="text-2xl font-bold">Mission complete!</h2>
+                    <p>{mission.debriefing}</p>
+                    {unlocks.length > 0 && (
+                        <p>
+                            New {unlocks.length === 1 ? 'mission' : 'missions'}:{' '}
+                            {unlocks.map(({ title }) => title).join(', ')}
+                        </p>
+                    )}
+                    <button
+                        onClick={onLeave}
+                        className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600"
+                    >
+                        Back to the missions
+                    </button>
+                </div>
+            )}
+        </div>
+    )
+}
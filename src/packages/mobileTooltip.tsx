@@ -1,80 +1,248 @@
-import React, { useState } from 'react'
+import React, {
+    useEffect,
+    useId,
+    useLayoutEffect,
+    useRef,
+    useState,
+} from 'react'
+import { createPortal } from 'react-dom'
 
 interface TooltipProps {
-    text: string
-    children?: React.ReactNode
-    position?: 'top' | 'bottom' | 'left' | 'right'
+    /** What the trigger button shows. */
+    children: React.ReactNode
+    /** What pops up. */
+    content: React.ReactNode
+    /** The accessible name of the popup, e.g. the word it is about. */
+    label: string
+    /** The side to open on if there is room; it flips if there isn't. */
+    position?: 'top' | 'bottom'
+    /** For the trigger button. */
     className?: string
 }
 
+/**
+ * Off: not shown. Hover: a read-only tooltip while the pointer or the
+ * keyboard focus is on the trigger. Pinned: a dialog opened by a tap or a
+ * click, which takes the focus until Escape, a click outside or the close
+ * button.
+ */
+type Mode = 'off' | 'hover' | 'pinned'
+
+const GAP = 8
+/** Keeps the popup clear of the viewport's edges. */
+const MARGIN = 8
+
+const FOCUSABLE =
+    'button:not([disabled]), [href], input:not([disabled]), select, textarea, [tabindex]:not([tabindex="-1"])'
+
+/**
+ * A popup for a word or any other bit of the page. Devices with a mouse get
+ * it on hover as well as on click; touch screens get it on tap. It is
+ * placed next to the trigger but never outside the viewport, and follows
+ * the trigger on scrolling.
+ */
 export default function MobileTooltip({
-    text,
     children,
+    content,
+    label,
     position = 'bottom',
     className = '',
 }: TooltipProps) {
-    const [isOpen, setIsOpen] = useState<boolean>(false)
+    const [mode, setMode] = useState<Mode>('off')
+    const [placement, setPlacement] = useState<{ top: number; left: number }>()
+    const triggerRef = useRef<HTMLButtonElement>(null)
+    const popupRef = useRef<HTMLDivElement>(null)
+    /** Set while the focus goes back to the trigger, which isn't a hover. */
+    const isRefocusingRef = useRef(false)
+    const id = useId()
+    const [canHover] = useState(
+        () =>
+            typeof window !== 'undefined' &&
+            !!window.matchMedia?.('(hover: hover) and (pointer: fine)').matches
+    )
+
+    const close = (isReturningFocus: boolean) => {
+        setMode('off')
+        setPlacement(undefined)
+        if (isReturningFocus) {
+            isRefocusingRef.current = true
+            triggerRef.current?.focus()
+            isRefocusingRef.current = false
+        }
+    }
+
+    useLayoutEffect(() => {
+        if (mode === 'off') {
+            return
+        }
+        const place = () => {
+            const trigger = triggerRef.current?.getBoundingClientRect()
+            const popup = popupRef.current?.getBoundingClientRect()
+            if (trigger && popup) {
+                setPlacement(placeNear(trigger, popup, position))
+            }
+        }
+        place()
+        window.addEventListener('resize', place)
+        window.addEventListener('scroll', place, true)
+        return () => {
+            window.removeEventListener('resize', place)
+            window.removeEventListener('scroll', place, true)
+        }
+    }, [mode, position])
+
+    useEffect(() => {
+        if (mode !== 'pinned') {
+            return
+        }
+        popupRef.current?.focus()
+        const handleKey = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') {
+                close(true)
+            } else if (event.key === 'Tab') {
+                trapFocus(event, popupRef.current)
+            }
+        }
+        const handlePointer = (event: PointerEvent) => {
+            const target = event.target as Node
+            if (
+                !popupRef.current?.contains(target) &&
+                !triggerRef.current?.contains(target)
+            ) {
+                close(false)
+            }
+        }
+        document.addEventListener('keydown', handleKey)
+        document.addEventListener('pointerdown', handlePointer)
+        return () => {
+            document.removeEventListener('keydown', handleKey)
+            document.removeEventListener('pointerdown', handlePointer)
+        }
+    }, [mode])
 
-    const positionClasses: Record<string, string> = {
-        top: 'bottom-full mb-2',
-        bottom: 'top-full mt-2',
-        left: 'right-full mr-2',
-        right: 'left-full ml-2',
+    const showHover = () => {
+        if (!isRefocusingRef.current) {
+            setMode((current) => (current === 'off' ? 'hover' : current))
+        }
     }
+    const hideHover = () =>
+        setMode((current) => (current === 'hover' ? 'off' : current))
 
     return (
-        <div className={`relative inline-block ${className}`}>
+        <>
             <button
+                ref={triggerRef}
                 type="button"
-                onClick={() => setIsOpen(!isOpen)}
-                className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-opacity-50"
+                aria-haspopup="dialog"
+                aria-expanded={mode === 'pinned'}
+                aria-controls={mode === 'pinned' ? id : undefined}
+                aria-describedby={mode === 'hover' ? id : undefined}
+                onClick={() =>
+                    mode === 'pinned' ? close(true) : setMode('pinned')
+                }
+                onMouseEnter={canHover ? showHover : undefined}
+                onMouseLeave={canHover ? hideHover : undefined}
+                onFocus={canHover ? showHover : undefined}
+                onBlur={hideHover}
+                onKeyDown={(event) => {
+                    if (event.key === 'Escape' && mode === 'hover') {
+                        close(false)
+                    }
+                }}
+                className={className}
             >
-                {children || 'Tap me for info'}
+                {children}
             </button>
 
-            {isOpen && (
-                <div
-                    className={`absolute z-10 w-64 p-4 bg-white rounded-lg shadow-lg border border-gray-200 ${positionClasses[position]}`}
-                    role="tooltip"
-                >
-                    <p className="text-gray-700 text-sm">{text}</p>
-
-                    <button
-                        type="button"
-                        onClick={() => setIsOpen(false)}
-                        className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
-                        aria-label="Close tooltip"
+            {mode !== 'off' &&
+                createPortal(
+                    <div
+                        ref={popupRef}
+                        id={id}
+                        role={mode === 'pinned' ? 'dialog' : 'tooltip'}
+                        aria-label={mode === 'pinned' ? label : undefined}
+                        tabIndex={-1}
+                        style={{
+                            position: 'fixed',
+                            top: placement?.top ?? 0,
+                            left: placement?.left ?? 0,
+                            // Measured once before it is shown in place.
+                            visibility: placement ? 'visible' : 'hidden',
+                        }}
+                        className="z-50 w-72 max-w-[calc(100vw-16px)] max-h-[70vh] overflow-auto p-4 bg-white rounded-lg shadow-lg border border-gray-200 text-gray-700 text-sm font-serif focus:outline-none"
                     >
-                        ×
-                    </button>
-                </div>
-            )}
-        </div>
+                        {content}
+                        {mode === 'pinned' && (
+                            <button
+                                type="button"
+                                onClick={() => close(true)}
+                                className="absolute top-2 right-2 text-gray-400 hover:text-gray-600"
+                                aria-label="Close"
+                            >
+                                ×
+                            </button>
+                        )}
+                    </div>,
+                    document.body
+                )}
+        </>
     )
 }
 
-// Example usage component to demonstrate the tooltip
-const TooltipExample: React.FC = () => {
-    return (
-        <div className="p-8 space-y-4">
-            <MobileTooltip
-                text="This tooltip appears below the button"
-                position="bottom"
-            >
-                Bottom Tooltip
-            </MobileTooltip>
-
-            <MobileTooltip
-                text="This tooltip appears above the button"
-                position="top"
-            >
-                Top Tooltip
-            </MobileTooltip>
-
-            <MobileTooltip
-                text="This is a customized tooltip with different text"
-                className="ml-4"
-            />
-        </div>
+/**
+ * Below or above the trigger, whichever has room, preferring `side`, and
+ * shifted sideways to stay inside the viewport.
+ */
+function placeNear(
+    trigger: DOMRect,
+    popup: DOMRect,
+    side: 'top' | 'bottom'
+): { top: number; left: number } {
+    const below = trigger.bottom + GAP
+    const above = trigger.top - GAP - popup.height
+    const fitsBelow = below + popup.height <= window.innerHeight - MARGIN
+    const fitsAbove = above >= MARGIN
+    const top =
+        side === 'bottom'
+            ? fitsBelow || !fitsAbove
+                ? below
+                : above
+            : fitsAbove || !fitsBelow
+              ? above
+              : below
+    const left = Math.min(
+        Math.max(trigger.left, MARGIN),
+        window.innerWidth - MARGIN - popup.width
     )
+    return {
+        top: Math.max(
+            MARGIN,
+            Math.min(top, window.innerHeight - MARGIN - popup.height)
+        ),
+        left: Math.max(MARGIN, left),
+    }
+}
+
+/** Keeps Tab and Shift+Tab cycling inside an open dialog. */
+function trapFocus(event: KeyboardEvent, container: HTMLElement | null) {
+    const focusable = [
+        ...(container?.querySelectorAll<HTMLElement>(FOCUSABLE) ?? []),
+    ]
+    if (!focusable.length) {
+        event.preventDefault()
+        return
+    }
+    const first = focusable[0]
+    const last = focusable[focusable.length - 1]
+    if (event.shiftKey && document.activeElement === first) {
+        event.preventDefault()
+        last.focus()
+    } else if (
+        !event.shiftKey &&
+        (document.activeElement === last ||
+            !container?.contains(document.activeElement))
+    ) {
+        event.preventDefault()
+        first.focus()
+    }
 }
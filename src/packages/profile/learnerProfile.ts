@@ -0,0 +1,261 @@
+import type { ReviewItem } from '../review/scheduler'
+import type { ItemId } from '../shop/shopItems'
+
+/**
+ * Bump this, and add a migration from the previous version to
+ * `MIGRATIONS`, whenever the saved shape of `LearnerProfile` changes.
+ */
+export const PROFILE_VERSION = 3
+
+const STORAGE_KEY = 'old-english-learning-games/profile'
+
+/** Only the newest answers are kept, so the save stays small. */
+const HISTORY_LIMIT = 500
+
+export interface AnswerRecord {
+    scenarioId: number
+    /** The learner's sentence as it read on screen. */
+    answer: string
+    isCorrect: boolean
+    at: number
+}
+
+export interface ProfileSettings {
+    showCase: boolean
+    /** Build answers from buttons, or type them. */
+    answerMode: 'pick' | 'type'
+}
+
+export interface LearnerProfile {
+    version: typeof PROFILE_VERSION
+    score: number
+    /** Earned by solving scenarios, spent in the shop. */
+    coins: number
+    /** Scenarios solved at the first attempt in a row. */
+    streak: number
+    /** How many of each shop item the learner has; upgrades count 1. */
+    inventory: Partial<Record<ItemId, number>>
+    /** Rounds finished this session, shown as the level. */
+    level: number
+    /** The scenario on screen, so a reload doesn't skip it. */
+    currentScenarioId?: number
+    completedScenarios: number[]
+    /** Ids of finished campaign missions. */
+    completedMissions: string[]
+    history: AnswerRecord[]
+    /** `ReviewScheduler` state. */
+    reviewItems: ReviewItem[]
+    settings: ProfileSettings
+}
+
+/** The parts of `Storage` the profile needs, so tests can pass a fake. */
+export type ProfileStorage = Pick<Storage, 'getItem' | 'setItem'>
+
+/**
+ * `MIGRATIONS[n]` turns a version `n` save into a version `n + 1` one.
+ * Saves are upgraded one step at a time, so each migration only has to
+ * know about the version right before it.
+ */
+const MIGRATIONS: Record<
+    number,
+    (saved: Record<string, unknown>) => Record<string, unknown>
+> = {
+    // Version 2 added the mission campaign.
+    1: (saved) => ({ ...saved, completedMissions: [] }),
+    // Version 3 added coins and the shop. "Show Case" became an upgrade, so
+    // whoever was using it gets it for free.
+    2: (saved) => ({
+        ...saved,
+        coins: 0,
+        streak: 0,
+        inventory: (saved.settings as Partial<ProfileSettings> | undefined)
+            ?.showCase
+            ? { caseLens: 1 }
+            : {},
+    }),
+}
+
+const isNumber = (value: unknown) => typeof value === 'number'
+const isString = (value: unknown) => typeof value === 'string'
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isArrayOf(value: unknown, isElement: (element: unknown) => boolean) {
+    return Array.isArray(value) && value.every(isElement)
+}
+
+function isAnswerRecord(value: unknown) {
+    return (
+        isRecord(value) &&
+        isNumber(value.scenarioId) &&
+        isString(value.answer) &&
+        typeof value.isCorrect === 'boolean' &&
+        isNumber(value.at)
+    )
+}
+
+function isReviewItem(value: unknown) {
+    return (
+        isRecord(value) &&
+        isString(value.key) &&
+        isString(value.label) &&
+        [
+            value.repetitions,
+            value.interval,
+            value.easeFactor,
+            value.due,
+            value.lapses,
+            value.lastReviewed,
+        ].every(isNumber)
+    )
+}
+
+export function createProfile(): LearnerProfile {
+    return {
+        version: PROFILE_VERSION,
+        score: 0,
+        coins: 0,
+        streak: 0,
+        inventory: {},
+        level: 0,
+        completedScenarios: [],
+        completedMissions: [],
+        history: [],
+        reviewItems: [],
+        settings: { showCase: false, answerMode: 'pick' },
+    }
+}
+
+/** Adds an answer to the history, dropping the oldest past the limit. */
+export function withAnswer(
+    profile: LearnerProfile,
+    record: AnswerRecord
+): LearnerProfile {
+    return {
+        ...profile,
+        history: [...profile.history, record].slice(-HISTORY_LIMIT),
+    }
+}
+
+/**
+ * Brings a save of any earlier version up to `PROFILE_VERSION` and checks
+ * that it has the shape of a profile.
+ *
+ * @throws If the data isn't a profile, or was saved by a newer version of
+ * the app than this one.
+ */
+export function parseProfile(data: unknown): LearnerProfile {
+    if (!isRecord(data)) {
+        throw new Error('This is not a learner profile.')
+    }
+    let saved = data
+    if (typeof saved.version !== 'number' || !Number.isInteger(saved.version)) {
+        throw new Error('This learner profile has no version.')
+    }
+    if (saved.version > PROFILE_VERSION) {
+        throw new Error(
+            `This learner profile was saved by a newer version of the game (${saved.version}, this one reads up to ${PROFILE_VERSION}).`
+        )
+    }
+    while ((saved.version as number) < PROFILE_VERSION) {
+        const version = saved.version as number
+        const migrate = MIGRATIONS[version]
+        if (!migrate) {
+            throw new Error(
+                `There is no way to upgrade a version ${version} learner profile.`
+            )
+        }
+        saved = { ...migrate(saved), version: version + 1 }
+    }
+
+    const invalid = Object.entries({
+        score: typeof saved.score === 'number',
+        coins: typeof saved.coins === 'number',
+        streak: typeof saved.streak === 'number',
+        inventory: isRecord(saved.inventory),
+        level: typeof saved.level === 'number',
+        currentScenarioId:
+            saved.currentScenarioId === undefined ||
+            typeof saved.currentScenarioId === 'number',
+        completedScenarios: isArrayOf(saved.completedScenarios, isNumber),
+        completedMissions: isArrayOf(saved.completedMissions, isString),
+        history: isArrayOf(saved.history, isAnswerRecord),
+        reviewItems: isArrayOf(saved.reviewItems, isReviewItem),
+        settings: typeof saved.settings === 'object' && saved.settings !== null,
+    })
+        .filter(([, isValid]) => !isValid)
+        .map(([field]) => field)
+    if (invalid.length) {
+        throw new Error(
+            `This learner profile is damaged: ${invalid.join(', ')} ${invalid.length === 1 ? 'is' : 'are'} missing or invalid.`
+        )
+    }
+    return {
+        ...createProfile(),
+        ...saved,
+        settings: {
+            ...createProfile().settings,
+            ...(saved.settings as Partial<ProfileSettings>),
+        },
+    } as LearnerProfile
+}
+
+export interface LoadedProfile {
+    profile: LearnerProfile
+    /** Why the save couldn't be read, if it couldn't. */
+    error?: Error
+}
+
+/**
+ * The saved profile, or a fresh one if there is none or it can't be read.
+ * A damaged save comes back as `error` rather than thrown, so the game
+ * still starts. It is the caller's to keep from saving over the unreadable
+ * one until the learner says so: it may only be from a newer version.
+ */
+export function loadProfile(
+    storage: ProfileStorage = localStorage
+): LoadedProfile {
+    const text = storage.getItem(STORAGE_KEY)
+    if (text === null) {
+        return { profile: createProfile() }
+    }
+    let data: unknown
+    try {
+        data = JSON.parse(text)
+    } catch {
+        return {
+            profile: createProfile(),
+            error: new Error('The saved learner profile is not JSON.'),
+        }
+    }
+    try {
+        return { profile: parseProfile(data) }
+    } catch (error) {
+        // parseProfile throws nothing but its own errors.
+        return { profile: createProfile(), error: error as Error }
+    }
+}
+
+export function saveProfile(
+    profile: LearnerProfile,
+    storage: ProfileStorage = localStorage
+) {
+    storage.setItem(STORAGE_KEY, JSON.stringify(profile))
+}
+
+export function exportProfile(profile: LearnerProfile): string {
+    return JSON.stringify(profile, null, 4)
+}
+
+/** @throws The same errors as `parseProfile`, or if `text` isn't JSON. */
+export function importProfile(text: string): LearnerProfile {
+    let data: unknown
+    try {
+        data = JSON.parse(text)
+    } catch {
+        throw new Error('This file is not a saved learner profile.')
+    }
+    return parseProfile(data)
+}
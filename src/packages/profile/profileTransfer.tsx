@@ -0,0 +1,74 @@
+import { useState, type ChangeEvent } from 'react'
+import {
+    exportProfile,
+    importProfile,
+    type LearnerProfile,
+} from './learnerProfile'
+
+interface ProfileTransferProps {
+    profile: LearnerProfile
+    onImport: (profile: LearnerProfile) => void
+}
+
+/**
+ * Saves the profile to a JSON file and reads one back, so progress can move
+ * between devices without a server.
+ */
+export default function ProfileTransfer({
+    profile,
+    onImport,
+}: ProfileTransferProps) {
+    const [error, setError] = useState('')
+
+    const handleExport = () => {
+        const url = URL.createObjectURL(
+            new Blob([exportProfile(profile)], { type: 'application/json' })
+        )
+        const link = document.createElement('a')
+        link.href = url
+        link.download = 'old-english-profile.json'
+        link.click()
+        URL.revokeObjectURL(url)
+    }
+
+    const handleImport = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        // Let the same file be picked again after fixing it.
+        event.target.value = ''
+        if (!file) {
+            return
+        }
+        try {
+            onImport(importProfile(await file.text()))
+            setError('')
+        } catch (importError) {
+            setError(
+                importError instanceof Error
+                    ? importError.message
+                    : String(importError)
+            )
+        }
+    }
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <button
+                type="button"
+                onClick={handleExport}
+                className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200"
+            >
+                Export progress
+            </button>
+            <label className="px-3 py-1 bg-amber-100 rounded hover:bg-amber-200 cursor-pointer">
+                Import progress
+                <input
+                    type="file"
+                    accept="application/json,.json"
+                    onChange={handleImport}
+                    className="hidden"
+                />
+            </label>
+            {error && <p className="text-red-700">{error}</p>}
+        </div>
+    )
+}
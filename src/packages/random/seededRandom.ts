@@ -0,0 +1,70 @@
+/**
+ * A small seeded pseudo-random generator (mulberry32). The same seed always
+ * gives the same sequence, on every machine, so anything built on it can
+ * be replayed or checked in Node.
+ */
+export class SeededRandom {
+    #state: number
+
+    /** @param seed Any integer; a string can be turned into one with `hashSeed`. */
+    constructor(seed: number) {
+        this.#state = seed >>> 0
+    }
+
+    /** Where the sequence has got to; a generator made from it carries on. */
+    get state() {
+        return this.#state
+    }
+
+    /** A float in [0, 1), like `Math.random`. */
+    next(): number {
+        this.#state = (this.#state + 0x6d2b79f5) >>> 0
+        let t = this.#state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    /** A float in [min, max). */
+    between(min: number, max: number): number {
+        return min + this.next() * (max - min)
+    }
+
+    /** An integer in [0, count). */
+    integer(count: number): number {
+        return Math.floor(this.next() * count)
+    }
+
+    /** @throws If `array` is empty. */
+    pick<T>(array: readonly T[]): T {
+        if (!array.length) {
+            throw new Error('Cannot pick from an empty array.')
+        }
+        return array[this.integer(array.length)]
+    }
+
+    /** A shuffled copy (Fisher–Yates); `array` itself is left alone. */
+    shuffle<T>(array: readonly T[]): T[] {
+        const copy = [...array]
+        for (let index = copy.length - 1; index > 0; index--) {
+            const other = this.integer(index + 1)
+            ;[copy[index], copy[other]] = [copy[other], copy[index]]
+        }
+        return copy
+    }
+}
+
+/** A 32-bit seed from any text (FNV-1a), e.g. a date or a challenge code. */
+export function hashSeed(text: string): number {
+    let hash = 0x811c9dc5
+    for (const character of text) {
+        hash ^= character.codePointAt(0) ?? 0
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+/** A seed for something nobody needs to replay, from `Math.random`. */
+export function randomSeed(): number {
+    return Math.floor(Math.random() * 2 ** 32)
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from 'vitest'
+import { diagnose } from '../grammar/diagnosis'
+import { sentenceOf } from '../grammar/sentence'
+import { loadLessonPack } from '../lessons/loadLessonPack'
+import caseMessengerPack from '../lessons/packs/caseMessenger.json'
+import {
+    DAY,
+    reviewItem,
+    reviewKeysOf,
+    ReviewScheduler,
+    type ReviewItem,
+} from './scheduler'
+
+const { scenarios } = loadLessonPack(caseMessengerPack)
+
+const KEY = { key: 'form:cyning:accusative:singular', label: 'cyning' }
+
+/** A clock that only moves when the test moves it. */
+function fakeClock(start = 0) {
+    let now = start
+    return {
+        clock: () => now,
+        advance: (milliseconds: number) => {
+            now += milliseconds
+        },
+    }
+}
+
+function newItem(now = 0): ReviewItem {
+    return {
+        ...KEY,
+        repetitions: 0,
+        interval: 0,
+        easeFactor: 2.5,
+        due: now,
+        lapses: 0,
+        lastReviewed: now,
+    }
+}
+
+describe('reviewItem', () => {
+    it('spaces right answers 1, 6, then interval × ease days apart', () => {
+        const first = reviewItem(newItem(), 5, 0)
+        expect(first).toMatchObject({ repetitions: 1, interval: 1, due: DAY })
+
+        const second = reviewItem(first, 5, first.due)
+        expect(second).toMatchObject({ repetitions: 2, interval: 6 })
+        expect(second.due).toBe(first.due + 6 * DAY)
+
+        const third = reviewItem(second, 5, second.due)
+        expect(third.interval).toBe(Math.round(6 * second.easeFactor))
+    })
+
+    it('sends a lapsed item back to the start and lowers its ease', () => {
+        const learnt = reviewItem(reviewItem(newItem(), 5, 0), 5, DAY)
+        const lapsed = reviewItem(learnt, 1, learnt.due)
+        expect(lapsed).toMatchObject({
+            repetitions: 0,
+            interval: 1,
+            lapses: 1,
+            due: learnt.due + DAY,
+        })
+        expect(lapsed.easeFactor).toBeLessThan(learnt.easeFactor)
+    })
+
+    it('never lets the ease fall below 1.3', () => {
+        let item = newItem()
+        for (let day = 0; day < 20; day++) {
+            item = reviewItem(item, 0, day * DAY)
+        }
+        expect(item.easeFactor).toBe(1.3)
+    })
+
+    it('leaves an item alone when it is answered right before it is due', () => {
+        const first = reviewItem(newItem(), 5, 0)
+        const early = reviewItem(first, 5, 60_000)
+        expect(early).toEqual({ ...first, lastReviewed: 60_000 })
+    })
+})
+
+describe('ReviewScheduler', () => {
+    it('dates reviews by its clock', () => {
+        const { clock, advance } = fakeClock(1000)
+        const scheduler = new ReviewScheduler({ clock })
+        scheduler.review(KEY, 5)
+        expect(scheduler.get(KEY.key)?.due).toBe(1000 + DAY)
+
+        advance(DAY)
+        scheduler.review(KEY, 5)
+        expect(scheduler.get(KEY.key)).toMatchObject({
+            repetitions: 2,
+            due: 1000 + 7 * DAY,
+        })
+    })
+
+    it('ranks new items, then overdue ones, above those not yet due', () => {
+        const { clock, advance } = fakeClock()
+        const scheduler = new ReviewScheduler({ clock })
+        expect(scheduler.priorityOf(KEY.key)).toBe(1)
+
+        // A 4 leaves the ease as it was, so no weakness is added.
+        scheduler.review(KEY, 4)
+        expect(scheduler.priorityOf(KEY.key)).toBe(0)
+
+        advance(DAY)
+        expect(scheduler.priorityOf(KEY.key)).toBe(1)
+        advance(DAY / 2)
+        expect(scheduler.priorityOf(KEY.key)).toBe(1.5)
+        // However long overdue, an item counts at most double.
+        advance(30 * DAY)
+        expect(scheduler.priorityOf(KEY.key)).toBe(2)
+    })
+
+    it('starts a new learner at the first scenario', () => {
+        const scheduler = new ReviewScheduler({ clock: fakeClock().clock })
+        expect(scheduler.next(scenarios)?.id).toBe(scenarios[0].id)
+        expect(
+            scheduler.next(scenarios, { exclude: [scenarios[0].id] })?.id
+        ).toBe(scenarios[1].id)
+    })
+
+    it('moves on from a scenario answered right, and comes back to it when due', () => {
+        const { clock, advance } = fakeClock()
+        const scheduler = new ReviewScheduler({ clock })
+        const [first] = scenarios
+        const answer = sentenceOf(first.clause)
+        scheduler.record(diagnose(answer, first.clause))
+
+        for (const token of answer) {
+            for (const { key } of reviewKeysOf(token)) {
+                expect(scheduler.get(key)?.due).toBe(DAY)
+            }
+        }
+        expect(scheduler.next(scenarios)?.id).not.toBe(first.id)
+
+        // Everything else is answered right later, so it falls due later.
+        advance(DAY / 2)
+        for (const scenario of scenarios.slice(1)) {
+            scheduler.record(
+                diagnose(sentenceOf(scenario.clause), scenario.clause)
+            )
+        }
+        advance(DAY / 2 + 1)
+        expect(scheduler.next(scenarios)?.id).toBe(first.id)
+    })
+
+    it('still picks a scenario when every item is well known and not due', () => {
+        const [first] = scenarios
+        const items = sentenceOf(first.clause)
+            .flatMap(reviewKeysOf)
+            .map((key) => ({
+                ...newItem(),
+                ...key,
+                easeFactor: 8,
+                due: 100 * DAY,
+            }))
+        const scheduler = new ReviewScheduler({
+            items,
+            clock: fakeClock().clock,
+        })
+        expect(scheduler.priorityOf(items[0].key)).toBeLessThan(-1)
+        expect(scheduler.next([first])).toBe(first)
+    })
+
+    it('saves and restores its items', () => {
+        const scheduler = new ReviewScheduler({ clock: fakeClock().clock })
+        scheduler.review(KEY, 3)
+        const restored = new ReviewScheduler({ items: scheduler.items })
+        expect(restored.get(KEY.key)).toEqual(scheduler.get(KEY.key))
+    })
+})
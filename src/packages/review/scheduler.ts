@@ -0,0 +1,260 @@
+import { isAdjectiveDeclined } from '../grammar/adjective'
+import type { Diagnosis, TokenVerdict } from '../grammar/diagnosis'
+import { isDemonstrativeDeclined } from '../grammar/demonstrative'
+import { isNounDeclined } from '../grammar/noun'
+import { isPronounDeclined } from '../grammar/pronoun'
+import { lemmaOf, sentenceOf, type SentenceToken } from '../grammar/sentence'
+import type { Scenario } from '../lessons/lessonPack'
+
+export const DAY = 24 * 60 * 60 * 1000
+
+/** Milliseconds since the epoch, like `Date.now`. Tests pass a fake one. */
+export type Clock = () => number
+
+/**
+ * SM-2 answer quality: 5 is a perfect answer, anything under 3 a lapse
+ * that sends the item back to the start.
+ */
+export type Quality = 0 | 1 | 2 | 3 | 4 | 5
+
+/** Something the learner can know: one form, or one rule behind many forms. */
+export interface ReviewKey {
+    /** e.g. `form:cyning:accusative:singular`, `rule:noun:a-stem:masculine:accusative:singular` */
+    key: string
+    /** e.g. `cyning, accusative singular` */
+    label: string
+}
+
+export interface ReviewItem extends ReviewKey {
+    /** Correct answers in a row since the last lapse. */
+    repetitions: number
+    /** Days until the next review. */
+    interval: number
+    easeFactor: number
+    due: number
+    lapses: number
+    lastReviewed: number
+}
+
+const INITIAL_EASE = 2.5
+const MINIMUM_EASE = 1.3
+
+const QUALITY_OF: Record<TokenVerdict, Quality> = {
+    correct: 5,
+    // The form was right, only its place wasn't.
+    misplaced: 4,
+    wrongForm: 2,
+    wrongNumber: 1,
+    wrongCase: 1,
+    wrongLemma: 1,
+    missing: 0,
+    extra: 0,
+}
+
+/**
+ * One SM-2 review of an item. Pure, so the interval arithmetic can be
+ * checked without a scheduler or a clock.
+ *
+ * A right answer before the item is due doesn't move it along: the same
+ * form can come up several times in one session, and getting it right
+ * twice in a minute says nothing about remembering it for six days.
+ */
+export function reviewItem(
+    item: ReviewItem,
+    quality: Quality,
+    now: number
+): ReviewItem {
+    if (quality >= 3 && now < item.due) {
+        return { ...item, lastReviewed: now }
+    }
+    const easeFactor = Math.max(
+        MINIMUM_EASE,
+        item.easeFactor + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)
+    )
+    if (quality < 3) {
+        return {
+            ...item,
+            repetitions: 0,
+            interval: 1,
+            easeFactor,
+            due: now + DAY,
+            lapses: item.lapses + 1,
+            lastReviewed: now,
+        }
+    }
+
+    const repetitions = item.repetitions + 1
+    const interval =
+        repetitions === 1
+            ? 1
+            : repetitions === 2
+              ? 6
+              : Math.round(item.interval * item.easeFactor)
+    return {
+        ...item,
+        repetitions,
+        interval,
+        easeFactor,
+        due: now + interval * DAY,
+        lastReviewed: now,
+    }
+}
+
+/**
+ * The things a correct use of `token` shows the learner knows: the form
+ * itself (lemma × case × number), and for nouns the declension rule it
+ * follows and for adjectives the choice of strong or weak.
+ */
+export function reviewKeysOf(token: SentenceToken): ReviewKey[] {
+    if (
+        !isNounDeclined(token) &&
+        !isPronounDeclined(token) &&
+        !isDemonstrativeDeclined(token) &&
+        !isAdjectiveDeclined(token)
+    ) {
+        return []
+    }
+    const lemma = lemmaOf(token)
+    const { caseGram, number } = token
+    const keys: ReviewKey[] = [
+        {
+            key: `form:${lemma}:${caseGram}:${number}`,
+            label: `${lemma}, ${caseGram} ${number}`,
+        },
+    ]
+
+    if (isNounDeclined(token) && token.declinations.declensionClass) {
+        const { declensionClass, gender } = token.declinations
+        keys.push({
+            key: `rule:noun:${declensionClass}:${gender}:${caseGram}:${number}`,
+            label: `${caseGram} ${number} of ${gender} ${declensionClass} nouns`,
+        })
+    } else if (isAdjectiveDeclined(token)) {
+        keys.push({
+            key: `rule:adjective:${token.strength}`,
+            label: `${token.strength} adjectives`,
+        })
+    }
+    return keys
+}
+
+/**
+ * Tracks SM-2 mastery for every form and rule the learner has met, and
+ * picks the scenario that best exercises the weak or due ones.
+ */
+export class ReviewScheduler {
+    #items: Map<string, ReviewItem>
+    #clock: Clock
+
+    constructor({
+        items = [],
+        clock = Date.now,
+    }: {
+        /** Saved state from `items`. */
+        items?: ReviewItem[]
+        clock?: Clock
+    } = {}) {
+        this.#items = new Map(items.map((item) => [item.key, item]))
+        this.#clock = clock
+    }
+
+    get items(): ReviewItem[] {
+        return [...this.#items.values()]
+    }
+
+    get(key: string): ReviewItem | undefined {
+        return this.#items.get(key)
+    }
+
+    review({ key, label }: ReviewKey, quality: Quality) {
+        const now = this.#clock()
+        const item = this.#items.get(key) ?? {
+            key,
+            label,
+            repetitions: 0,
+            interval: 0,
+            easeFactor: INITIAL_EASE,
+            due: now,
+            lapses: 0,
+            lastReviewed: now,
+        }
+        this.#items.set(key, reviewItem(item, quality, now))
+    }
+
+    /**
+     * Reviews every item behind every word of a checked answer. An item met
+     * twice in one answer is graded by its worse showing.
+     */
+    record(diagnosis: Diagnosis) {
+        const graded = new Map<string, { key: ReviewKey; quality: Quality }>()
+        for (const { verdict, expected } of diagnosis.tokens) {
+            if (!expected) {
+                continue
+            }
+            for (const key of reviewKeysOf(expected)) {
+                const quality = QUALITY_OF[verdict]
+                const previous = graded.get(key.key)
+                if (!previous || quality < previous.quality) {
+                    graded.set(key.key, { key, quality })
+                }
+            }
+        }
+        for (const { key, quality } of graded.values()) {
+            this.review(key, quality)
+        }
+    }
+
+    /**
+     * How much an item needs practice right now: 1 if it is new, more the
+     * longer it is overdue, nothing if it is not due yet, plus a little for
+     * items with a low ease factor (those the learner keeps getting wrong).
+     */
+    priorityOf(key: string): number {
+        const item = this.#items.get(key)
+        if (!item) {
+            return 1
+        }
+        const now = this.#clock()
+        const weakness = (INITIAL_EASE - item.easeFactor) / INITIAL_EASE
+        if (item.due > now) {
+            return weakness
+        }
+        const overdue = (now - item.due) / (Math.max(item.interval, 1) * DAY)
+        return 1 + Math.min(overdue, 1) + weakness
+    }
+
+    /**
+     * The scenario whose items need practice most on average. Ties go to
+     * the earlier scenario, so a new learner starts at the beginning.
+     *
+     * @param exclude Scenario ids to skip, e.g. the one just played.
+     */
+    next(
+        scenarios: Scenario[],
+        { exclude = [] }: { exclude?: number[] } = {}
+    ): Scenario | undefined {
+        let best: Scenario | undefined
+        let bestPriority = -Infinity
+        for (const scenario of scenarios) {
+            if (exclude.includes(scenario.id)) {
+                continue
+            }
+            const keys = new Set(
+                sentenceOf(scenario.clause).flatMap((token) =>
+                    reviewKeysOf(token).map(({ key }) => key)
+                )
+            )
+            const priority = keys.size
+                ? [...keys].reduce(
+                      (sum, key) => sum + this.priorityOf(key),
+                      0
+                  ) / keys.size
+                : 0
+            if (priority > bestPriority) {
+                best = scenario
+                bestPriority = priority
+            }
+        }
+        return best
+    }
+}
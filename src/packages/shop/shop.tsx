@@ -0,0 +1,55 @@
+import type { LearnerProfile } from '../profile/learnerProfile'
+import {
+    CONSUMABLES,
+    UPGRADES,
+    isUpgrade,
+    itemCount,
+    type ItemId,
+    type ShopItem,
+} from './shopItems'
+
+interface ShopProps {
+    profile: LearnerProfile
+    onBuy: (id: ItemId) => void
+}
+
+/**
+ * Where coins are spent: consumables can be bought again and again,
+ * upgrades once.
+ */
+export default function Shop({ profile, onBuy }: ShopProps) {
+    const renderItem = (item: ShopItem) => {
+        const count = itemCount(profile, item.id)
+        const isOwned = isUpgrade(item.id) && count > 0
+        return (
+            <li
+                key={item.id}
+                className="p-4 rounded bg-amber-100 flex justify-between items-center gap-4"
+            >
+                <div>
+                    <h4 className="font-bold">
+                        {item.name}
+                        {!isUpgrade(item.id) && ` (you have ${count})`}
+                    </h4>
+                    <p className="text-sm">{item.description}</p>
+                </div>
+                <button
+                    onClick={() => onBuy(item.id)}
+                    disabled={isOwned || profile.coins < item.price}
+                    className="px-4 py-2 bg-amber-500 text-white rounded hover:bg-amber-600 disabled:opacity-50 shrink-0"
+                >
+                    {isOwned ? 'Owned' : `Buy for ${item.price} coins`}
+                </button>
+            </li>
+        )
+    }
+
+    return (
+        <div className="space-y-4">
+            <h3 className="font-bold">Consumables</h3>
+            <ul className="space-y-2">{CONSUMABLES.map(renderItem)}</ul>
+            <h3 className="font-bold">Upgrades</h3>
+            <ul className="space-y-2">{UPGRADES.map(renderItem)}</ul>
+        </div>
+    )
+}
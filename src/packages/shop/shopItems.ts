@@ -0,0 +1,120 @@
+import type { LearnerProfile } from '../profile/learnerProfile'
+
+/** Used up one at a time. */
+export type ConsumableId = 'revealCase' | 'eliminateForms'
+/** Bought once and kept. */
+export type UpgradeId = 'caseLens' | 'pocketGlossary'
+export type ItemId = ConsumableId | UpgradeId
+
+export interface ShopItem {
+    id: ItemId
+    name: string
+    description: string
+    price: number
+}
+
+export const CONSUMABLES: ShopItem[] = [
+    {
+        id: 'revealCase',
+        name: 'Case reveal',
+        description: 'Tells you which case one word of the sentence needs.',
+        price: 4,
+    },
+    {
+        id: 'eliminateForms',
+        name: 'Eliminator',
+        description:
+            'Strikes out all but two forms of one noun or pronoun: the right one and a single decoy.',
+        price: 6,
+    },
+]
+
+export const UPGRADES: ShopItem[] = [
+    {
+        id: 'caseLens',
+        name: 'Case lens',
+        description:
+            'Unlocks the "Show Case" toggle, which labels every word of your sentence with its case.',
+        price: 25,
+    },
+    {
+        id: 'pocketGlossary',
+        name: 'Pocket glossary',
+        description: 'Shows the meaning of every word on offer.',
+        price: 40,
+    },
+]
+
+const BASE_REWARD = 5
+const FIRST_TRY_BONUS = 3
+/** The streak bonus grows by one coin per answer, up to this. */
+const STREAK_BONUS_CAP = 5
+
+/**
+ * Coins for a solved scenario: a base reward, a bonus for getting it right
+ * first time, and one coin more for every first-time answer in a row.
+ *
+ * @param attempt 1 for the first check of the scenario.
+ * @param streak First-time answers in a row, counting this one.
+ */
+export function rewardFor({
+    attempt,
+    streak,
+}: {
+    attempt: number
+    streak: number
+}): number {
+    return (
+        BASE_REWARD +
+        (attempt === 1 ? FIRST_TRY_BONUS : 0) +
+        Math.min(streak, STREAK_BONUS_CAP)
+    )
+}
+
+export function isUpgrade(id: ItemId): id is UpgradeId {
+    return UPGRADES.some((item) => item.id === id)
+}
+
+export function itemCount(profile: LearnerProfile, id: ItemId): number {
+    return profile.inventory[id] ?? 0
+}
+
+/** @throws If the learner can't afford it or already owns the upgrade. */
+export function buyItem(profile: LearnerProfile, id: ItemId): LearnerProfile {
+    const item = [...CONSUMABLES, ...UPGRADES].find((item) => item.id === id)
+    if (!item) {
+        throw new Error(`There is no item "${id}" in the shop.`)
+    }
+    if (isUpgrade(id) && itemCount(profile, id)) {
+        throw new Error(`You already own the ${item.name}.`)
+    }
+    if (profile.coins < item.price) {
+        throw new Error(
+            `The ${item.name} costs ${item.price} coins, but you only have ${profile.coins}.`
+        )
+    }
+    return {
+        ...profile,
+        coins: profile.coins - item.price,
+        inventory: {
+            ...profile.inventory,
+            [id]: itemCount(profile, id) + 1,
+        },
+    }
+}
+
+/** @throws If the learner has none left. */
+export function spendItem(
+    profile: LearnerProfile,
+    id: ConsumableId
+): LearnerProfile {
+    const count = itemCount(profile, id)
+    if (!count) {
+        const name = CONSUMABLES.find((item) => item.id === id)?.name ?? id
+        throw new Error(`You have no ${name} left.`)
+    }
+    return {
+        ...profile,
+        inventory: { ...profile.inventory, [id]: count - 1 },
+    }
+}
@@ -0,0 +1,24 @@
+import { canSpeak, speak } from './speech'
+
+interface SayButtonProps {
+    /** Old English, one word or a sentence. */
+    text: string
+}
+
+/** Plays `text` through speech synthesis; renders nothing without it. */
+export default function SayButton({ text }: SayButtonProps) {
+    if (!canSpeak()) {
+        return null
+    }
+    return (
+        <button
+            type="button"
+            onClick={() => speak(text)}
+            aria-label={`Say "${text}"`}
+            title="Listen"
+            className="px-2 rounded bg-amber-100 hover:bg-amber-200"
+        >
+            🔊
+        </button>
+    )
+}
@@ -0,0 +1,78 @@
+import { pronounce } from '../grammar/pronunciation'
+
+/**
+ * IPA sounds respelled for a German voice, whose vowels, ü, ch and sch are
+ * the nearest a speech engine gets to Old English. Longest first, so ɑː is
+ * read before ɑ. There is no þ in German; t is the least bad stand-in.
+ * They are all replaced in one pass, so a respelling is never respelled
+ * again: v becomes w, and that w stays w.
+ */
+const RESPELLINGS: Array<[string, string]> = [
+    ['tʃ', 'tsch'],
+    // The first half of a long diphthong has no room for a lengthening h.
+    ['æːɑ', 'äa'],
+    ['eːo', 'eo'],
+    ['iːy', 'iü'],
+    ['iːu', 'iu'],
+    ['dʒ', 'dsch'],
+    ['ɑː', 'aa'],
+    ['æː', 'äh'],
+    ['eː', 'eh'],
+    ['iː', 'ih'],
+    ['oː', 'oh'],
+    ['uː', 'uh'],
+    ['yː', 'üh'],
+    ['ɑ', 'a'],
+    ['æ', 'ä'],
+    ['y', 'ü'],
+    ['ʃ', 'sch'],
+    ['θ', 't'],
+    ['ð', 'd'],
+    ['ɣ', 'g'],
+    ['ɡ', 'g'],
+    ['ŋ', 'n'],
+    ['x', 'ch'],
+    ['ç', 'ch'],
+    ['v', 'w'],
+    ['w', 'u'],
+    ['z', 's'],
+]
+
+const SOUND = new RegExp(RESPELLINGS.map(([sound]) => sound).join('|'), 'g')
+const LETTERS = new Map(RESPELLINGS)
+
+/** Whether the browser can speak at all; playback is optional. */
+export function canSpeak(): boolean {
+    return typeof window !== 'undefined' && 'speechSynthesis' in window
+}
+
+/**
+ * A rough respelling of Old English text that a German voice reads close
+ * to the reconstructed pronunciation.
+ */
+export function respell(text: string): string {
+    return text
+        .split(/\s+/)
+        .filter((word) => word.length)
+        .map((word) =>
+            pronounce(word)
+                .replace(SOUND, (sound) => LETTERS.get(sound) ?? sound)
+                // Long consonants are written double, and the stress and
+                // diphthong marks have nothing to say to a speech engine.
+                .replace(/(.)ː/g, '$1$1')
+                .replace(/ˈ|\u032F/g, '')
+        )
+        .join(' ')
+}
+
+/** Says Old English text out loud, cutting off whatever is being said. */
+export function speak(text: string) {
+    if (!canSpeak()) {
+        return
+    }
+    const utterance = new SpeechSynthesisUtterance(respell(text))
+    utterance.lang = 'de-DE'
+    utterance.rate = 0.8
+    window.speechSynthesis.cancel()
+    window.speechSynthesis.speak(utterance)
+}
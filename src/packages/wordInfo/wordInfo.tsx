@@ -0,0 +1,306 @@
+import { isAdjectiveDeclined } from '../grammar/adjective'
+import { isDemonstrativeDeclined } from '../grammar/demonstrative'
+import { describeForm, formsOf } from '../grammar/morphology'
+import { isNounDeclined } from '../grammar/noun'
+import { isPrepositionGoverning } from '../grammar/preposition'
+import { isPronounDeclined } from '../grammar/pronoun'
+import { lemmaOf, type SentenceToken } from '../grammar/sentence'
+import type {
+    GrammaticalCase,
+    GrammaticalGender,
+    GrammaticalNumber,
+    GrammaticalPerson,
+    Tense,
+} from '../grammar/types'
+import { isVerbConjugated } from '../grammar/verb'
+import SayButton from '../speech/sayButton'
+
+interface WordInfoProps {
+    token: SentenceToken
+    /** Meanings by lemma; without one the meaning is left out. */
+    glossary?: Record<string, string>
+}
+
+/** A paradigm laid out for display, with the token's own cell marked. */
+interface ParadigmView {
+    columns: string[]
+    rows: Array<{
+        label: string
+        cells: Array<{ form?: string; isCurrent: boolean }>
+    }>
+}
+
+const CASES: GrammaticalCase[] = [
+    'nominative',
+    'accusative',
+    'genitive',
+    'dative',
+    'instrumental',
+]
+const NUMBERS: GrammaticalNumber[] = ['singular', 'dual', 'plural']
+const GENDERS: GrammaticalGender[] = ['masculine', 'feminine', 'neuter']
+const PERSONS: GrammaticalPerson[] = ['first', 'second', 'third']
+const TENSES: Tense[] = ['present', 'past']
+
+/**
+ * Everything there is to say about one word of a sentence: how it sounds,
+ * what it means, what kind of word it is, its whole paradigm with this
+ * form highlighted, and the other forms spelled the same way.
+ */
+export default function WordInfo({ token, glossary }: WordInfoProps) {
+    const lemma = lemmaOf(token)
+    const meaning = glossary?.[lemma]
+    const paradigm = paradigmViewOf(token)
+    const notes = notesOn(token)
+
+    return (
+        <div className="space-y-2">
+            <p className="pr-6">
+                <span className="text-lg font-bold">{token.value}</span>{' '}
+                <span className="text-gray-600">/{token.pronunciation}/</span>{' '}
+                <SayButton text={token.value} />
+            </p>
+            <p className="text-gray-600">
+                {partOfSpeechOf(token)}
+                {lemma !== token.value && `, a form of "${lemma}"`}
+            </p>
+            {meaning && <p>“{meaning}”</p>}
+            {paradigm && (
+                <table className="text-xs border-separate border-spacing-1">
+                    <thead>
+                        <tr>
+                            <th />
+                            {paradigm.columns.map((column) => (
+                                <th key={column} className="text-left">
+                                    {column}
+                                </th>
+                            ))}
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {paradigm.rows.map(({ label, cells }) => (
+                            <tr key={label}>
+                                <th className="text-left pr-1">{label}</th>
+                                {cells.map(({ form, isCurrent }, index) => (
+                                    <td
+                                        key={index}
+                                        aria-current={isCurrent || undefined}
+                                        className={
+                                            isCurrent
+                                                ? 'bg-amber-200 font-bold rounded px-1'
+                                                : 'px-1'
+                                        }
+                                    >
+                                        {form ?? '–'}
+                                    </td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            )}
+            {notes.length > 0 && (
+                <ul className="list-disc pl-4">
+                    {notes.map((note) => (
+                        <li key={note}>{note}</li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
+
+function partOfSpeechOf(token: SentenceToken): string {
+    if (isNounDeclined(token)) {
+        const { gender, declensionClass } = token.declinations
+        return [`${gender} noun`, declensionClass].filter(Boolean).join(', ')
+    }
+    if (isPronounDeclined(token)) {
+        return `${token.declinations.person} person pronoun`
+    }
+    if (isDemonstrativeDeclined(token)) {
+        return 'demonstrative (the, that, this)'
+    }
+    if (isAdjectiveDeclined(token)) {
+        return 'adjective'
+    }
+    if (isVerbConjugated(token)) {
+        const [kind, verbClass] = token.conjugations.verbClass.split('-')
+        return `${kind} verb, class ${verbClass}`
+    }
+    if (isPrepositionGoverning(token)) {
+        return 'preposition'
+    }
+    return 'word'
+}
+
+function paradigmViewOf(token: SentenceToken): ParadigmView | undefined {
+    if (isNounDeclined(token) || isPronounDeclined(token)) {
+        const table = token.declinations.declinationTable
+        const numbers = NUMBERS.filter((number) =>
+            CASES.some((caseGram) => table[caseGram]?.[number])
+        )
+        return {
+            columns: numbers,
+            rows: CASES.filter((caseGram) => table[caseGram]).map(
+                (caseGram) => ({
+                    label: caseGram,
+                    cells: numbers.map((number) => ({
+                        form: table[caseGram]?.[number]?.value,
+                        isCurrent:
+                            token.caseGram === caseGram &&
+                            token.number === number,
+                    })),
+                })
+            ),
+        }
+    }
+    if (isDemonstrativeDeclined(token)) {
+        const { declinations } = token
+        const columns = [...GENDERS, 'plural']
+        return {
+            columns,
+            rows: CASES.map((caseGram) => ({
+                label: caseGram,
+                cells: columns.map((column) => {
+                    const isPlural = column === 'plural'
+                    return {
+                        form: (isPlural
+                            ? declinations.plural
+                            : declinations.singular[
+                                  column as GrammaticalGender
+                              ])[caseGram]?.value,
+                        isCurrent:
+                            token.caseGram === caseGram &&
+                            (isPlural
+                                ? token.number !== 'singular'
+                                : token.number === 'singular' &&
+                                  token.gender === column),
+                    }
+                }),
+            })),
+        }
+    }
+    if (isAdjectiveDeclined(token)) {
+        // Just the strength and degree in use; the whole table is 150 forms.
+        const { declinations, degree, strength } = token
+        const columns = (['singular', 'plural'] as const).flatMap((number) =>
+            GENDERS.map((gender) => ({ number, gender }))
+        )
+        return {
+            columns: columns.map(
+                ({ number, gender }) => `${gender.slice(0, 4)}. ${number}`
+            ),
+            rows: CASES.map((caseGram) => ({
+                label: caseGram,
+                cells: columns.map(({ number, gender }) => ({
+                    form: declinations.formOf({
+                        degree,
+                        strength,
+                        gender,
+                        caseGram,
+                        number,
+                    })?.value,
+                    isCurrent:
+                        token.caseGram === caseGram &&
+                        token.gender === gender &&
+                        (token.number === 'singular') ===
+                            (number === 'singular'),
+                })),
+            })),
+        }
+    }
+    if (isVerbConjugated(token)) {
+        const { conjugations } = token
+        const slots = [
+            ...PERSONS.map((person) => ({
+                label: `${person} singular`,
+                person,
+                number: 'singular' as const,
+                mood: 'indicative' as const,
+            })),
+            {
+                label: 'plural',
+                person: 'third' as const,
+                number: 'plural' as const,
+                mood: 'indicative' as const,
+            },
+            {
+                label: 'subjunctive singular',
+                person: 'third' as const,
+                number: 'singular' as const,
+                mood: 'subjunctive' as const,
+            },
+            {
+                label: 'subjunctive plural',
+                person: 'third' as const,
+                number: 'plural' as const,
+                mood: 'subjunctive' as const,
+            },
+        ]
+        return {
+            columns: TENSES,
+            rows: slots.map(({ label, person, number, mood }) => ({
+                label,
+                cells: TENSES.map((tense) => ({
+                    form: conjugations.formOf({ person, number, tense, mood })
+                        ?.value,
+                    isCurrent:
+                        token.tense === tense &&
+                        token.mood === mood &&
+                        (token.number === 'singular') ===
+                            (number === 'singular') &&
+                        (mood === 'subjunctive' ||
+                            number !== 'singular' ||
+                            token.person === person),
+                })),
+            })),
+        }
+    }
+    return undefined
+}
+
+/** Other readings of the same spelling, and what a preposition governs. */
+function notesOn(token: SentenceToken): string[] {
+    const notes: string[] = []
+    if (isPrepositionGoverning(token)) {
+        const { governs, senses } = token.preposition
+        notes.push(
+            `Takes the ${governs.join(' or ')}; here the ${token.caseGram}${
+                senses[token.caseGram] ? `, for ${senses[token.caseGram]}` : ''
+            }.`
+        )
+        return notes
+    }
+    if (isVerbConjugated(token) && token.mood === 'imperative') {
+        notes.push(`An order: imperative ${token.number}.`)
+    }
+    const current = describeForm(token)
+    const others = [
+        ...new Set(
+            formsOf(token)
+                .filter(
+                    (form) =>
+                        form.value === token.value &&
+                        // Determiners only borrow the plural for the dual.
+                        !(
+                            isDemonstrativeDeclined(form) &&
+                            form.number === 'dual'
+                        )
+                )
+                .map(describeForm)
+                .filter((description) => description !== current)
+        ),
+    ]
+    if (
+        others.length &&
+        (isNounDeclined(token) ||
+            isPronounDeclined(token) ||
+            isDemonstrativeDeclined(token))
+    ) {
+        notes.push(
+            `Here ${current}; the same spelling is also the ${others.join(', the ')}.`
+        )
+    }
+    return notes
+}
@@ -0,0 +1,30 @@
+import type React from 'react'
+import type { SentenceToken } from '../grammar/sentence'
+import MobileTooltip from '../mobileTooltip'
+import WordInfo from './wordInfo'
+
+interface WordPopoverProps {
+    token: SentenceToken
+    glossary?: Record<string, string>
+    /** What the trigger shows; the word itself by default. */
+    children?: React.ReactNode
+    className?: string
+}
+
+/** A word that opens its `WordInfo` on hover or tap. */
+export default function WordPopover({
+    token,
+    glossary,
+    children,
+    className,
+}: WordPopoverProps) {
+    return (
+        <MobileTooltip
+            label={`About "${token.value}"`}
+            content={<WordInfo token={token} glossary={glossary} />}
+            className={className}
+        >
+            {children ?? token.value}
+        </MobileTooltip>
+    )
+}